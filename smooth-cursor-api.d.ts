@@ -0,0 +1,125 @@
+/**
+ * Public API of the Smooth Cursor plugin
+ *
+ * Every release attaches this file next to the plugin package. Copy it into your plugin
+ * (or reference it from a Templater/script setup) for typed access:
+ *
+ *   const api = (app as any).plugins.getPlugin('smooth-cursor')?.api as SmoothCursorApi | undefined;
+ *   if (api && api.version >= 1) {
+ *     const unsubscribe = api.onModeChange((mode) => console.log(mode));
+ *   }
+ *
+ * The same notifications are triggered as workspace events:
+ *
+ *   this.registerEvent(app.workspace.on('smooth-cursor:mode-change', (mode) => { ... }));
+ *   this.registerEvent(app.workspace.on('smooth-cursor:cursor-move', (event) => { ... }));
+ *
+ * `version` is bumped on incompatible changes only; new members are added without a bump.
+ */
+import type { EventRef } from 'obsidian';
+
+/**
+ * Vim mode of the active editor (`normal` when vim is off)
+ */
+export type SmoothCursorMode =
+  | 'normal'
+  | 'insert'
+  | 'visual'
+  | 'replace'
+  | 'command'
+  | 'visual-line'
+  | 'visual-block'
+  | 'operator-pending';
+
+/**
+ * Cursor shape
+ */
+export type SmoothCursorShape = 'block' | 'line' | 'underline' | 'hollow';
+
+/**
+ * Cursor locator animation - a ring pulsing in on the cursor, or a halo expanding out of it
+ */
+export type SmoothCursorLocatorStyle = 'ring' | 'halo';
+
+/**
+ * Rectangle in viewport (client) pixel coordinates
+ */
+export interface SmoothCursorRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Payload of cursor movement notifications
+ */
+export interface SmoothCursorMoveEvent {
+  head: number; // Document offset of the main selection head
+  rect: SmoothCursorRect; // Where the cursor is heading (the drawn cursor animates towards it)
+}
+
+/**
+ * Temporary cursor style - unset fields keep the configured value
+ */
+export interface SmoothCursorStyleOverride {
+  color?: string; // Any CSS color
+  opacity?: number; // 0-1
+  shape?: SmoothCursorShape;
+}
+
+export interface SmoothCursorApi {
+  /** API version, bumped on incompatible changes */
+  readonly version: number;
+
+  /** Current vim mode */
+  getMode(): SmoothCursorMode;
+
+  /**
+   * Subscribe to vim mode changes
+   * @returns Unsubscribe function
+   */
+  onModeChange(callback: (mode: SmoothCursorMode) => void): () => void;
+
+  /**
+   * Subscribe to cursor movement (new cursor destinations, not every animation frame)
+   * @returns Unsubscribe function
+   */
+  onCursorMove(callback: (event: SmoothCursorMoveEvent) => void): () => void;
+
+  /** Rectangle of the drawn (animated) cursor, or null when no cursor is shown */
+  getCursorRect(): SmoothCursorRect | null;
+
+  /** Play the cursor locator (defaults to the style chosen in settings) */
+  locate(style?: SmoothCursorLocatorStyle): void;
+
+  /** Briefly flash the cursor */
+  flash(): void;
+
+  /**
+   * Override the cursor style until the returned function (or clearStyleOverride) is called
+   * Each context holds one override; the most recently set context wins.
+   * @param context - Caller-chosen key, e.g. your plugin id
+   * @returns Function removing this override (does nothing once the context got a newer override)
+   */
+  setStyleOverride(context: string, override: SmoothCursorStyleOverride): () => void;
+
+  /** Remove the override of a context */
+  clearStyleOverride(context: string): void;
+
+  /** Stop drawing the smooth cursor (the native caret is shown) */
+  pause(): void;
+
+  /** Resume drawing after pause() */
+  resume(): void;
+
+  /** Whether rendering is paused */
+  isPaused(): boolean;
+}
+
+declare module 'obsidian' {
+  interface Workspace {
+    on(name: 'smooth-cursor:mode-change', callback: (mode: SmoothCursorMode) => unknown, ctx?: unknown): EventRef;
+    on(name: 'smooth-cursor:cursor-move', callback: (event: SmoothCursorMoveEvent) => unknown, ctx?: unknown): EventRef;
+  }
+}
@@ -1,5 +1,35 @@
 import type SmoothCursorPlugin from './main';
 import type { CursorPosition } from './types';
+import { createInterpolator, getInterpolatorKey, REFERENCE_FRAME_MS, type Interpolator } from './interpolators';
+import { shouldReduceMotion } from './cursor-utils';
+
+/**
+ * Time source and frame scheduler used by AnimationEngine
+ * Injectable so the engine can be driven by a fake clock
+ */
+export interface AnimationClock {
+  now(): number;
+  requestFrame(callback: (time: number) => void): number;
+  cancelFrame(id: number): void;
+}
+
+/**
+ * Create a clock bound to a specific window
+ * Popout windows have their own frame loop (and performance timebase), so
+ * cursors rendered in a popout must be driven by that window
+ */
+export function createWindowClock(win: Window): AnimationClock {
+  return {
+    now: () => win.performance.now(),
+    requestFrame: (callback) => win.requestAnimationFrame(callback),
+    cancelFrame: (id) => win.cancelAnimationFrame(id),
+  };
+}
+
+/**
+ * Default clock backed by the main window's performance.now() and requestAnimationFrame
+ */
+export const browserClock: AnimationClock = createWindowClock(window);
 
 /**
  * AnimationEngine - Handles smooth cursor movement animations
@@ -11,6 +41,7 @@ import type { CursorPosition } from './types';
  */
 export class AnimationEngine {
   private plugin: SmoothCursorPlugin;
+  private clock: AnimationClock;
   private currentPos: CursorPosition = { x: 0, y: 0, width: 0, height: 0 };
   private targetPos: CursorPosition = { x: 0, y: 0, width: 0, height: 0 };
   private rafId: number | null = null;
@@ -19,13 +50,13 @@ export class AnimationEngine {
   private isAnimating = false;
   private isStopped = false;
   
-  // Cached lerp factor to avoid recalculation every frame
-  private cachedLerpFactor = 0.16;
-  private cachedAnimationDuration = 100;
+  // Interpolator selected in settings, rebuilt when its settings change
+  private interpolator: Interpolator;
+  private cachedInterpolatorKey = '';
+  private lastFrameTime = 0;
+  private maxFrameDelta = 250; // Clamp long gaps (e.g. window was hidden) to keep integration stable
   
   // Typing-specific animation parameters
-  private cachedTypingLerpFactor = 0.35;
-  private cachedTypingAnimationDuration = 50;
   private isCurrentlyTyping = false;
   
   // Movement callback for blink pause integration
@@ -34,6 +65,9 @@ export class AnimationEngine {
   private isMovementActive = false;
   private movementStateDebounceDelay = 250; // Delay before notifying movement stopped (ms) - allows animation to complete
   
+  // Jump callback for the automatic cursor locator
+  private onJumpCallback: ((target: CursorPosition) => void) | null = null;
+  
   /**
    * Notify that movement has started
    */
@@ -68,9 +102,46 @@ export class AnimationEngine {
     }, this.movementStateDebounceDelay);
   }
 
-  constructor(plugin: SmoothCursorPlugin) {
+  /**
+   * Notify a jump when the new target is farther than autoLocatorMinDistance from the previous one
+   * Measured between targets, not from the animated position - repeated updates while the
+   * cursor is still catching up are not new jumps.
+   */
+  private checkJump(target: CursorPosition) {
+    const { enableAutoLocator, autoLocatorMinDistance } = this.plugin.settings;
+    if (!this.onJumpCallback || !enableAutoLocator) return;
+
+    const dx = target.x - this.targetPos.x;
+    const dy = target.y - this.targetPos.y;
+    if (dx * dx + dy * dy >= autoLocatorMinDistance * autoLocatorMinDistance) {
+      this.onJumpCallback(target);
+    }
+  }
+
+  constructor(plugin: SmoothCursorPlugin, clock: AnimationClock = browserClock) {
     this.plugin = plugin;
-    this.updateLerpFactor();
+    this.clock = clock;
+    this.interpolator = createInterpolator(plugin.settings);
+    this.updateInterpolator();
+  }
+
+  /**
+   * Switch the clock driving the animation (e.g. when moving to a popout window)
+   * A running animation continues on the new clock
+   */
+  setClock(clock: AnimationClock) {
+    if (clock === this.clock) return;
+
+    if (this.rafId !== null) {
+      this.clock.cancelFrame(this.rafId);
+      this.rafId = null;
+    }
+    this.clock = clock;
+    this.interpolator.reset();
+
+    if (this.isAnimating && !this.isStopped) {
+      this.startAnimationLoop();
+    }
   }
 
   /**
@@ -81,23 +152,26 @@ export class AnimationEngine {
   }
 
   /**
-   * Update cached lerp factor when settings change
+   * Rebuild the interpolator when its settings change
    */
-  private updateLerpFactor() {
-    const duration = this.plugin.settings.animationDuration;
-    if (duration !== this.cachedAnimationDuration) {
-      this.cachedAnimationDuration = duration;
-      this.cachedLerpFactor = Math.min(1, 16 / Math.max(duration, 16));
-    }
-    
-    // Update typing lerp factor - faster animation for typing
-    const typingDuration = this.plugin.settings.insertModeAnimationDuration ?? 50;
-    if (typingDuration !== this.cachedTypingAnimationDuration) {
-      this.cachedTypingAnimationDuration = typingDuration;
-      this.cachedTypingLerpFactor = Math.min(1, 16 / Math.max(typingDuration, 16));
+  private updateInterpolator() {
+    const key = getInterpolatorKey(this.plugin.settings);
+    if (key !== this.cachedInterpolatorKey) {
+      this.cachedInterpolatorKey = key;
+      this.interpolator = createInterpolator(this.plugin.settings);
     }
   }
 
+  /**
+   * Get animation duration for the current movement
+   * Typing uses the (shorter) insert mode duration
+   */
+  private getActiveDuration(): number {
+    return this.isCurrentlyTyping
+      ? this.plugin.settings.insertModeAnimationDuration ?? 50
+      : this.plugin.settings.animationDuration;
+  }
+
   /**
    * Set callback for movement state changes (for blink pause integration)
    */
@@ -105,6 +179,13 @@ export class AnimationEngine {
     this.onMovementCallback = callback;
   }
 
+  /**
+   * Set callback for long jumps (automatic cursor locator)
+   */
+  setOnJump(callback: (target: CursorPosition) => void) {
+    this.onJumpCallback = callback;
+  }
+
   /**
    * Animate cursor to a new position
    * @param target - Target cursor position
@@ -112,17 +193,23 @@ export class AnimationEngine {
    */
   animateTo(target: CursorPosition, isTyping = false) {
     const { enableAnimation, enableInsertModeAnimation } = this.plugin.settings;
-    const now = performance.now();
+    const now = this.clock.now();
     
     // Calculate time since last update
     const timeSinceLastUpdate = now - this.lastUpdateTime;
     this.lastUpdateTime = now;
     
-    // Track typing state for lerp factor selection
+    // Track typing state for duration selection
     this.isCurrentlyTyping = isTyping;
+    
+    // Typing never jumps far enough to lose the cursor, and the locator is motion itself
+    const reduceMotion = shouldReduceMotion(this.plugin.settings);
+    if (!isTyping && !reduceMotion) {
+      this.checkJump(target);
+    }
 
-    // If animation is disabled, jump directly
-    if (!enableAnimation) {
+    // If animation is disabled (or the OS asks for reduced motion), jump directly
+    if (!enableAnimation || reduceMotion) {
       // Notify movement state even when animation is disabled to pause breathing animation
       this.notifyMovementStarted();
       this.setPositionDirect(target);
@@ -163,18 +250,30 @@ export class AnimationEngine {
     // Movement state tracking will handle pausing breathing animation during movement
     // Removed the skip-animation check to ensure all movements get smooth transitions
 
+    // Update interpolator if settings changed
+    this.updateInterpolator();
+    
+    // Only start a new segment when the target actually moved, so repeated
+    // updates with the same target don't restart time-based easings
+    const targetChanged = !this.isAnimating ||
+      target.x !== this.targetPos.x ||
+      target.y !== this.targetPos.y ||
+      target.width !== this.targetPos.width ||
+      target.height !== this.targetPos.height;
+    
     // Update target position (avoid spread operator)
     this.targetPos.x = target.x;
     this.targetPos.y = target.y;
     this.targetPos.width = target.width;
     this.targetPos.height = target.height;
     
+    if (targetChanged) {
+      this.interpolator.retarget(this.currentPos, this.targetPos, now, this.getActiveDuration());
+    }
+    
     // Reset stopped flag when starting new animation
     this.isStopped = false;
     
-    // Update lerp factor if settings changed
-    this.updateLerpFactor();
-    
     // Notify movement started (for breathing animation pause)
     this.notifyMovementStarted();
     
@@ -189,6 +288,7 @@ export class AnimationEngine {
    * Set position directly without object spread
    */
   private setPositionDirect(pos: CursorPosition) {
+    this.interpolator.reset();
     this.currentPos.x = pos.x;
     this.currentPos.y = pos.y;
     this.currentPos.width = pos.width;
@@ -206,7 +306,7 @@ export class AnimationEngine {
   setImmediate(position: CursorPosition) {
     // Stop any running animation
     if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
+      this.clock.cancelFrame(this.rafId);
       this.rafId = null;
     }
     this.isAnimating = false;
@@ -239,7 +339,7 @@ export class AnimationEngine {
    */
   stop() {
     if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
+      this.clock.cancelFrame(this.rafId);
       this.rafId = null;
     }
     this.isAnimating = false;
@@ -250,12 +350,13 @@ export class AnimationEngine {
 
   private startAnimationLoop() {
     if (this.rafId !== null) {
-      cancelAnimationFrame(this.rafId);
+      this.clock.cancelFrame(this.rafId);
     }
-    this.rafId = requestAnimationFrame(() => this.animate());
+    this.lastFrameTime = 0;
+    this.rafId = this.clock.requestFrame((time) => this.animate(time));
   }
 
-  private animate() {
+  private animate(time: number) {
     // Early exit checks
     if (!this.isAnimating || this.isStopped) {
       this.rafId = null;
@@ -264,41 +365,23 @@ export class AnimationEngine {
       return;
     }
 
-    // Use adaptive lerp factor based on typing state
-    const lerpFactor = this.isCurrentlyTyping 
-      ? this.cachedTypingLerpFactor 
-      : this.cachedLerpFactor;
+    // Delta time from frame timestamps - all interpolators integrate over real
+    // milliseconds, so durations mean the same on every refresh rate
+    // (the first frame of a loop has no previous timestamp and counts as one reference frame)
+    const dt = this.lastFrameTime > 0
+      ? Math.min(Math.max(0, time - this.lastFrameTime), this.maxFrameDelta)
+      : REFERENCE_FRAME_MS;
+    this.lastFrameTime = time;
     
-    // Lerp towards target (inline calculation for performance)
-    this.currentPos.x += (this.targetPos.x - this.currentPos.x) * lerpFactor;
-    this.currentPos.y += (this.targetPos.y - this.currentPos.y) * lerpFactor;
-    this.currentPos.width += (this.targetPos.width - this.currentPos.width) * lerpFactor;
-    this.currentPos.height += (this.targetPos.height - this.currentPos.height) * lerpFactor;
+    // Advance towards target using the selected interpolator
+    // (duration adapts to typing state)
+    const settled = this.interpolator.step(this.currentPos, this.targetPos, time, dt, this.getActiveDuration());
 
     // Notify callback
     this.onFrameCallback?.(this.currentPos);
 
-    // Check if we're close enough to target
-    // Check both position and dimensions to ensure smooth shape transitions
-    const dx = this.targetPos.x - this.currentPos.x;
-    const dy = this.targetPos.y - this.currentPos.y;
-    const dw = this.targetPos.width - this.currentPos.width;
-    const dh = this.targetPos.height - this.currentPos.height;
-    const distanceSquared = dx * dx + dy * dy;
-    const dimensionDeltaSquared = dw * dw + dh * dh;
-    
-    // Threshold for position: 0.5^2 = 0.25
-    // Threshold for dimensions: 0.1^2 = 0.01 (smaller threshold for smoother dimension transitions)
-    const positionThreshold = 0.25;
-    const dimensionThreshold = 0.01;
-
-    if (distanceSquared < positionThreshold && dimensionDeltaSquared < dimensionThreshold) {
-      // Snap to target and stop
-      this.currentPos.x = this.targetPos.x;
-      this.currentPos.y = this.targetPos.y;
-      this.currentPos.width = this.targetPos.width;
-      this.currentPos.height = this.targetPos.height;
-      this.onFrameCallback?.(this.currentPos);
+    if (settled) {
+      // Interpolator snapped to target - stop
       this.isAnimating = false;
       this.isCurrentlyTyping = false;
       this.rafId = null;
@@ -306,7 +389,7 @@ export class AnimationEngine {
       this.scheduleMovementStopped();
     } else {
       // Continue animation
-      this.rafId = requestAnimationFrame(() => this.animate());
+      this.rafId = this.clock.requestFrame((frameTime) => this.animate(frameTime));
     }
   }
 }
@@ -0,0 +1,44 @@
+import type SmoothCursorPlugin from './main';
+import type { SmoothCursorApi } from '../smooth-cursor-api';
+
+/**
+ * Version of the public API (smooth-cursor-api.d.ts) - bump on incompatible changes only
+ */
+export const API_VERSION = 1;
+
+/**
+ * Workspace events triggered for other plugins
+ */
+export const MODE_CHANGE_EVENT = 'smooth-cursor:mode-change';
+export const CURSOR_MOVE_EVENT = 'smooth-cursor:cursor-move';
+
+const noop = () => {
+  // Nothing to unsubscribe
+};
+
+/**
+ * Create the public API exposed as `plugin.api`
+ * Only forwards to the plugin's components, so internals stay private.
+ */
+export function createApi(plugin: SmoothCursorPlugin): SmoothCursorApi {
+  const api: SmoothCursorApi = {
+    version: API_VERSION,
+    getMode: () => plugin.getVimMode(),
+    onModeChange: (callback) => plugin.vimState?.onModeChange(callback) ?? noop,
+    onCursorMove: (callback) => plugin.cursorRenderer?.onCursorMove(callback) ?? noop,
+    getCursorRect: () => plugin.cursorRenderer?.getCursorRect() ?? null,
+    locate: (style) => plugin.cursorRenderer?.locateCursor(style),
+    flash: () => plugin.cursorRenderer?.flashCursor(),
+    setStyleOverride: (context, override) => {
+      // The copy identifies this call - restoring must not remove a newer override of the context
+      const token = { ...override };
+      plugin.cursorRenderer?.setStyleOverride(context, token);
+      return () => plugin.cursorRenderer?.clearStyleOverride(context, token);
+    },
+    clearStyleOverride: (context) => plugin.cursorRenderer?.clearStyleOverride(context),
+    pause: () => plugin.pauseRendering(),
+    resume: () => plugin.resumeRendering(),
+    isPaused: () => plugin.isRenderingPaused(),
+  };
+  return Object.freeze(api);
+}
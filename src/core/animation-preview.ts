@@ -0,0 +1,80 @@
+import type SmoothCursorPlugin from '../main';
+import { AnimationEngine } from '../animation';
+import { resolveCursorColor } from '../cursor-utils';
+
+/**
+ * Animation preview for the settings tab
+ * Moves a cursor-like dot back and forth with its own AnimationEngine,
+ * so changes to interpolation settings are visible immediately
+ */
+export class AnimationPreview {
+  private plugin: SmoothCursorPlugin;
+  private animationEngine: AnimationEngine | null = null;
+  private trackEl: HTMLElement | null = null;
+  private dotEl: HTMLElement | null = null;
+  private intervalId: number | null = null;
+  private isAtEnd = false;
+  private moveInterval = 900; // Time between movements (ms)
+  private dotWidth = 10;
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Create preview elements and start moving the dot
+   */
+  mount(containerEl: HTMLElement): void {
+    this.destroy();
+
+    this.trackEl = containerEl.createDiv({ cls: 'smooth-cursor-preview' });
+    this.dotEl = this.trackEl.createDiv({ cls: 'smooth-cursor-preview-dot' });
+    this.dotEl.style.backgroundColor = resolveCursorColor(this.plugin.settings, containerEl.ownerDocument);
+    this.dotEl.style.opacity = String(this.plugin.settings.cursorOpacity);
+
+    this.animationEngine = new AnimationEngine(this.plugin);
+    this.animationEngine.setOnFrame((pos) => {
+      if (this.dotEl) {
+        this.dotEl.style.transform = `translateX(${pos.x}px)`;
+      }
+    });
+    this.animationEngine.setImmediate({ x: 0, y: 0, width: this.dotWidth, height: 0 });
+
+    this.intervalId = window.setInterval(() => this.move(), this.moveInterval);
+  }
+
+  /**
+   * Stop the preview and remove its elements
+   */
+  destroy(): void {
+    if (this.intervalId !== null) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.animationEngine?.stop();
+    this.animationEngine = null;
+    this.trackEl?.remove();
+    this.trackEl = null;
+    this.dotEl = null;
+    this.isAtEnd = false;
+  }
+
+  private move(): void {
+    if (!this.trackEl || !this.animationEngine) return;
+
+    // Element was removed by the settings tab re-rendering
+    if (!this.trackEl.isConnected) {
+      this.destroy();
+      return;
+    }
+
+    this.isAtEnd = !this.isAtEnd;
+    const maxX = Math.max(0, this.trackEl.clientWidth - this.dotWidth);
+    this.animationEngine.animateTo({
+      x: this.isAtEnd ? maxX : 0,
+      y: 0,
+      width: this.dotWidth,
+      height: 0,
+    });
+  }
+}
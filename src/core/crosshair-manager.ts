@@ -0,0 +1,73 @@
+import type { CursorPosition } from '../types';
+
+/**
+ * Crosshair manager - highlights the cursor's line and column across the editor
+ * so the caret is easy to find for users with low vision
+ */
+export class CrosshairManager {
+  private rowEl: HTMLDivElement | null = null;
+  private columnEl: HTMLDivElement | null = null;
+
+  /**
+   * Create crosshair elements
+   * @param doc - Document of the editor (popout windows have their own)
+   */
+  create(doc: Document = document): void {
+    this.remove();
+
+    this.rowEl = doc.createElement('div');
+    this.rowEl.className = 'smooth-cursor-crosshair smooth-cursor-crosshair-row';
+    this.columnEl = doc.createElement('div');
+    this.columnEl.className = 'smooth-cursor-crosshair smooth-cursor-crosshair-column';
+    this.hide();
+    doc.body.appendChild(this.rowEl);
+    doc.body.appendChild(this.columnEl);
+  }
+
+  /**
+   * Move the crosshair to the cursor
+   * @param rect - Displayed cursor rectangle in viewport coordinates
+   * @param bounds - Visible editor area the crosshair spans
+   * @param color - Highlight color
+   * @param opacity - Highlight opacity (0-1)
+   */
+  update(rect: CursorPosition, bounds: DOMRect, color: string, opacity: number): void {
+    if (!this.rowEl || !this.columnEl) return;
+
+    // Hide when the cursor is scrolled out of the editor
+    if (rect.y + rect.height < bounds.top || rect.y > bounds.bottom) {
+      this.hide();
+      return;
+    }
+
+    this.applyRect(this.rowEl, bounds.left, rect.y, bounds.width, rect.height, color, opacity);
+    this.applyRect(this.columnEl, rect.x, bounds.top, Math.max(rect.width, 2), bounds.height, color, opacity);
+  }
+
+  /**
+   * Hide crosshair
+   */
+  hide(): void {
+    if (this.rowEl) this.rowEl.style.display = 'none';
+    if (this.columnEl) this.columnEl.style.display = 'none';
+  }
+
+  /**
+   * Remove crosshair elements
+   */
+  remove(): void {
+    this.rowEl?.remove();
+    this.columnEl?.remove();
+    this.rowEl = null;
+    this.columnEl = null;
+  }
+
+  private applyRect(el: HTMLDivElement, x: number, y: number, width: number, height: number, color: string, opacity: number): void {
+    el.style.display = 'block';
+    el.style.transform = `translate(${x}px, ${y}px)`;
+    el.style.width = `${width}px`;
+    el.style.height = `${height}px`;
+    el.style.backgroundColor = color;
+    el.style.opacity = String(opacity);
+  }
+}
@@ -1,33 +1,71 @@
-import type { CursorShape, SmoothCursorSettings } from '../types';
+import type { CursorCharacter, CursorShape, SmoothCursorSettings } from '../types';
 import { addClass, removeClass } from '../utils/dom-utils';
+import { resolveCursorColor } from '../cursor-utils';
+
+/**
+ * Primary cursor follows selection.main, secondary cursors follow the other ranges,
+ * the input cursor follows the caret of plain text fields outside CodeMirror
+ */
+export type CursorVariant = 'primary' | 'secondary' | 'input';
+
+/**
+ * Opacity multiplier that keeps secondary cursors visually distinct from the primary one
+ */
+export const SECONDARY_CURSOR_OPACITY_FACTOR = 0.5;
+
+/**
+ * Length of the flash triggered through the public API (matches the CSS animation)
+ */
+const FLASH_DURATION_MS = 400;
 
 /**
  * Cursor element manager for DOM element lifecycle
  */
 export class CursorElementManager {
   private cursorEl: HTMLDivElement | null = null;
+  private charEl: HTMLSpanElement | null = null; // Character rendered inside the block cursor
   private settings: SmoothCursorSettings;
+  private variant: CursorVariant;
+  private flashTimeout: number | null = null;
+  private flashWindow: Window = window; // Timer ids belong to the window that created them
 
-  constructor(settings: SmoothCursorSettings) {
+  constructor(settings: SmoothCursorSettings, variant: CursorVariant = 'primary') {
     this.settings = settings;
+    this.variant = variant;
   }
 
   /**
    * Create cursor element
+   * @param editorId - Id of the editor the cursor belongs to
+   * @param doc - Document of the editor (popout windows have their own)
    */
-  create(editorId: string): HTMLDivElement {
+  create(editorId: string, doc: Document = document): HTMLDivElement {
     // Remove any existing cursor elements
     if (this.cursorEl) {
       this.cursorEl.remove();
       this.cursorEl = null;
+      this.charEl = null;
     }
 
-    document.querySelectorAll('.smooth-cursor').forEach(el => el.remove());
+    // Only the primary cursor cleans up stale elements - secondary cursors are
+    // created after it and must not remove it, the input cursor lives on its own
+    if (this.variant === 'primary') {
+      doc.querySelectorAll('.smooth-cursor:not(.smooth-cursor-input)').forEach(el => el.remove());
+    }
+
+    const opacity = this.getOpacity(this.settings.cursorOpacity);
+    const color = resolveCursorColor(this.settings, doc);
 
-    this.cursorEl = document.createElement('div');
+    this.cursorEl = doc.createElement('div');
     this.cursorEl.className = 'smooth-cursor';
     this.cursorEl.dataset.editorId = editorId;
     
+    if (this.variant === 'secondary') {
+      this.cursorEl.classList.add('smooth-cursor-secondary');
+    } else if (this.variant === 'input') {
+      this.cursorEl.classList.add('smooth-cursor-input');
+    }
+    
     // Add transform-mode class if enabled
     if (this.settings.useTransformAnimation) {
       this.cursorEl.classList.add('transform-mode');
@@ -38,14 +76,15 @@ export class CursorElementManager {
       display: none !important;
       pointer-events: none !important;
       z-index: 10000 !important;
-      background-color: ${this.settings.cursorColor} !important;
+      background-color: ${color} !important;
       border-radius: 1px;
-      --smooth-cursor-opacity: ${this.settings.cursorOpacity};
+      --smooth-cursor-color: ${color};
+      --smooth-cursor-opacity: ${opacity};
     `;
     // Set initial opacity without !important to allow animation to override
-    this.cursorEl.style.opacity = String(this.settings.cursorOpacity);
+    this.cursorEl.style.opacity = String(opacity);
     
-    document.body.appendChild(this.cursorEl);
+    doc.body.appendChild(this.cursorEl);
     
     return this.cursorEl;
   }
@@ -70,6 +109,25 @@ export class CursorElementManager {
     this.cursorEl.dataset.shape = shape;
   }
 
+  /**
+   * Update cursor color and base opacity
+   * Setting the inline color replaces the initial !important one, so the
+   * background-color transition from StyleManager animates mode switches
+   */
+  setColor(color: string, opacity: number): void {
+    if (!this.cursorEl) return;
+
+    const effectiveOpacity = this.getOpacity(opacity);
+    this.cursorEl.style.backgroundColor = color;
+    this.cursorEl.style.setProperty('--smooth-cursor-color', color);
+    this.cursorEl.style.setProperty('--smooth-cursor-opacity', String(effectiveOpacity));
+
+    // Inline opacity is only set when breathing animation does not control it
+    if (!this.cursorEl.classList.contains('breathing') || this.cursorEl.classList.contains('moving')) {
+      this.cursorEl.style.opacity = String(effectiveOpacity);
+    }
+  }
+
   /**
    * Update cursor position
    */
@@ -90,6 +148,45 @@ export class CursorElementManager {
     this.cursorEl.style.height = `${height}px`;
   }
 
+  /**
+   * Render a character inside the cursor (block cursor text)
+   * @param character - Character and font to render, null to clear
+   * @param color - Text color
+   * @param lineHeight - Line height (px) so the glyph sits on the text baseline
+   */
+  setCharacter(character: CursorCharacter | null, color = '', lineHeight = 0): void {
+    if (!this.cursorEl) return;
+
+    if (!character) {
+      this.charEl?.remove();
+      this.charEl = null;
+      return;
+    }
+
+    if (!this.charEl) {
+      this.charEl = this.cursorEl.ownerDocument.createElement('span');
+      this.charEl.className = 'smooth-cursor-char';
+      this.cursorEl.appendChild(this.charEl);
+    }
+
+    this.charEl.textContent = character.char;
+    this.charEl.style.fontFamily = character.fontFamily;
+    this.charEl.style.fontSize = character.fontSize;
+    this.charEl.style.fontWeight = character.fontWeight;
+    this.charEl.style.fontStyle = character.fontStyle;
+    this.charEl.style.color = color;
+    this.charEl.style.lineHeight = lineHeight > 0 ? `${lineHeight}px` : '';
+  }
+
+  /**
+   * Hide the cursor character while the block is between positions
+   */
+  setCharacterVisible(visible: boolean): void {
+    if (this.charEl) {
+      this.charEl.style.visibility = visible ? '' : 'hidden';
+    }
+  }
+
   /**
    * Show cursor element
    */
@@ -110,6 +207,28 @@ export class CursorElementManager {
     }
   }
 
+  /**
+   * Briefly flash the cursor (restarts when called again while flashing)
+   */
+  flash(): void {
+    if (!this.cursorEl) return;
+
+    const cursorEl = this.cursorEl;
+    cursorEl.classList.remove('smooth-cursor-flash');
+    void cursorEl.offsetWidth; // Reflow so the animation starts over
+    cursorEl.classList.add('smooth-cursor-flash');
+
+    // Timeout instead of animationend - no animation runs with reduced motion
+    if (this.flashTimeout !== null) {
+      this.flashWindow.clearTimeout(this.flashTimeout);
+    }
+    this.flashWindow = cursorEl.ownerDocument.defaultView ?? window;
+    this.flashTimeout = this.flashWindow.setTimeout(() => {
+      this.flashTimeout = null;
+      cursorEl.classList.remove('smooth-cursor-flash');
+    }, FLASH_DURATION_MS);
+  }
+
   /**
    * Update breathing animation state
    */
@@ -154,11 +273,20 @@ export class CursorElementManager {
   updateSettings(settings: SmoothCursorSettings): void {
     this.settings = settings;
     if (this.cursorEl) {
-      this.cursorEl.style.backgroundColor = settings.cursorColor;
-      this.cursorEl.style.setProperty('--smooth-cursor-opacity', String(settings.cursorOpacity));
+      const color = resolveCursorColor(settings, this.cursorEl.ownerDocument);
+      this.cursorEl.style.backgroundColor = color;
+      this.cursorEl.style.setProperty('--smooth-cursor-color', color);
+      this.cursorEl.style.setProperty('--smooth-cursor-opacity', String(this.getOpacity(settings.cursorOpacity)));
     }
   }
 
+  /**
+   * Get effective opacity for this cursor variant
+   */
+  private getOpacity(opacity: number): number {
+    return this.variant === 'secondary' ? opacity * SECONDARY_CURSOR_OPACITY_FACTOR : opacity;
+  }
+
   /**
    * Remove cursor element
    */
@@ -166,6 +294,7 @@ export class CursorElementManager {
     if (this.cursorEl) {
       this.cursorEl.remove();
       this.cursorEl = null;
+      this.charEl = null;
     }
   }
 
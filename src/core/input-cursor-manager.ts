@@ -0,0 +1,181 @@
+import type SmoothCursorPlugin from '../main';
+import type { CursorModeColor, CursorPosition, CursorShape } from '../types';
+import { AnimationEngine, createWindowClock } from '../animation';
+import { calculateCursorDimensions, getCursorColorForMode, getCursorShapeForMode, shouldReduceMotion } from '../cursor-utils';
+import { CaretMeasurementService, isTextField } from '../services/caret-measurement-service';
+import { CursorElementManager } from './cursor-element-manager';
+import { EventManager } from './event-manager';
+
+/**
+ * Input cursor manager - draws the smooth cursor in plain text fields outside CodeMirror
+ * (inline title, properties, search, command palette, rename dialogs).
+ * Fields have no vim mode, so the insert mode shape and color are used.
+ * The native caret of the focused field is hidden with caret-color: transparent.
+ */
+export class InputCursorManager {
+  private plugin: SmoothCursorPlugin;
+  private eventManagers: Map<Document, EventManager> = new Map();
+  private fieldEventManager = new EventManager();
+  private caretMeasurementService = new CaretMeasurementService();
+  private cursorElementManager: CursorElementManager;
+  private animationEngine: AnimationEngine;
+  private field: HTMLElement | null = null;
+  private shape: CursorShape = 'line';
+  private color: CursorModeColor = { color: '', opacity: 1 };
+  private caretHeight = 0; // Line height at the caret, the underline cursor sits at its bottom
+  private updateScheduled = false;
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+    this.cursorElementManager = new CursorElementManager(plugin.settings, 'input');
+    this.animationEngine = new AnimationEngine(plugin);
+    this.animationEngine.setOnFrame((pos) => this.applyCursorPosition(pos));
+    this.animationEngine.setOnMovement((isMoving) => this.cursorElementManager.setMoving(isMoving, this.color.opacity));
+  }
+
+  /**
+   * Start following focused fields in a document (idempotent)
+   */
+  observe(doc: Document): void {
+    if (this.eventManagers.has(doc)) return;
+
+    const eventManager = new EventManager();
+    eventManager.addEventListener(doc, 'focusin', (e: FocusEvent) => this.handleFocusIn(e.target as Element | null), true);
+    eventManager.addEventListener(doc, 'focusout', (e: FocusEvent) => {
+      if (e.target === this.field) this.detachField();
+    }, true);
+    // Caret moves (keys, clicks, selection API) and layout changes such as modal open animations
+    eventManager.addEventListener(doc, 'selectionchange', () => this.scheduleUpdate());
+    eventManager.addEventListener(doc, 'transitionend', () => this.scheduleUpdate(), true);
+    eventManager.addEventListener(doc, 'animationend', () => this.scheduleUpdate(), true);
+    this.eventManagers.set(doc, eventManager);
+
+    // A field may already have focus (plugin enabled from the settings search box)
+    if (doc.activeElement) {
+      this.handleFocusIn(doc.activeElement);
+    }
+  }
+
+  /**
+   * Stop following fields in a document
+   */
+  unobserve(doc: Document): void {
+    if (this.field?.ownerDocument === doc) {
+      this.detachField();
+    }
+    this.eventManagers.get(doc)?.removeAll();
+    this.eventManagers.delete(doc);
+  }
+
+  /**
+   * Re-apply shape, color and breathing after a settings change
+   */
+  updateStyle(): void {
+    if (!this.plugin.settings.enableInputCursor || this.plugin.isRenderingPaused()) {
+      this.detachField();
+      return;
+    }
+    if (!this.field) return;
+
+    const settings = this.plugin.settings;
+    this.cursorElementManager.updateSettings(settings);
+    this.shape = getCursorShapeForMode(settings, 'insert');
+    this.color = getCursorColorForMode(settings, 'insert', this.field.ownerDocument);
+    this.cursorElementManager.updateShape(this.shape);
+    this.cursorElementManager.setColor(this.color.color, this.color.opacity);
+    this.cursorElementManager.setBreathing(
+      settings.enableBreathingAnimation && !shouldReduceMotion(settings),
+      this.color.opacity
+    );
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Stop following fields everywhere and remove the cursor
+   */
+  destroy(): void {
+    this.detachField();
+    this.eventManagers.forEach((eventManager) => eventManager.removeAll());
+    this.eventManagers.clear();
+    this.cursorElementManager.remove();
+  }
+
+  private handleFocusIn(target: Element | null) {
+    if (!this.plugin.settings.enableInputCursor || this.plugin.isRenderingPaused()) return;
+    if (!target || typeof target.closest !== 'function') return;
+
+    const element = target as HTMLElement;
+    // CodeMirror's own content is drawn by the cursor renderer
+    if (element.closest('.cm-content')) return;
+    if (!isTextField(element) && !element.isContentEditable) return;
+    if (element === this.field) return;
+
+    this.attachField(element);
+  }
+
+  private attachField(field: HTMLElement) {
+    this.detachField();
+    this.field = field;
+
+    const doc = field.ownerDocument;
+    this.animationEngine.setClock(createWindowClock(doc.defaultView ?? window));
+    this.cursorElementManager.create('input', doc);
+    field.classList.add('smooth-cursor-input-active');
+
+    // Scrolling the field itself moves the caret without a selection change
+    this.fieldEventManager.addEventListener(field, 'scroll', () => this.scheduleUpdate(), { passive: true });
+    this.fieldEventManager.addEventListener(field, 'input', () => this.scheduleUpdate());
+
+    this.updateStyle();
+    this.updatePosition(true);
+  }
+
+  private detachField() {
+    this.fieldEventManager.removeAll();
+    this.field?.classList.remove('smooth-cursor-input-active');
+    this.field = null;
+    this.animationEngine.stop();
+    this.cursorElementManager.hide();
+  }
+
+  private scheduleUpdate() {
+    if (!this.field || this.updateScheduled) return;
+    this.updateScheduled = true;
+
+    (this.field.ownerDocument.defaultView ?? window).requestAnimationFrame(() => {
+      this.updateScheduled = false;
+      this.updatePosition(false);
+    });
+  }
+
+  /**
+   * Measure the caret and move the cursor there
+   * @param immediate - Skip animation (newly focused field)
+   */
+  private updatePosition(immediate: boolean) {
+    if (!this.field) return;
+
+    const caret = this.caretMeasurementService.measure(this.field);
+    if (!caret) {
+      this.cursorElementManager.hide();
+      return;
+    }
+
+    this.caretHeight = caret.height;
+    const { width, height } = calculateCursorDimensions(caret, this.shape);
+    const target: CursorPosition = { x: caret.x, y: caret.y, width, height };
+    const wasHidden = this.cursorElementManager.getElement()?.style.display === 'none';
+    this.cursorElementManager.show();
+
+    if (immediate || wasHidden) {
+      this.animationEngine.setImmediate(target);
+    } else {
+      this.animationEngine.animateTo(target, true);
+    }
+  }
+
+  private applyCursorPosition(pos: CursorPosition) {
+    const yOffset = this.shape === 'underline' ? this.caretHeight - pos.height : 0;
+    this.cursorElementManager.updatePosition(pos.x, pos.y, pos.width, pos.height, this.plugin.settings.useTransformAnimation, yOffset);
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Line highlight manager - draws the current-line band and the matching gutter band
+ * Both are positioned from the animated cursor on every frame, so they slide with it.
+ * The bands sit behind the text like CodeMirror's own active-line backgrounds,
+ * which are hidden while the bands are shown.
+ */
+export class LineHighlightManager {
+  private bandEl: HTMLDivElement | null = null;
+  private gutterEl: HTMLDivElement | null = null;
+  private editorDom: HTMLElement | null = null;
+  private scrollerEl: HTMLElement | null = null;
+
+  /**
+   * Create band elements
+   * @param editorDom - Editor root element (receives the class hiding CodeMirror's active line)
+   * @param scrollerEl - Editor scroller (.cm-scroller) the line band is drawn in, behind .cm-content
+   */
+  create(editorDom: HTMLElement, scrollerEl: HTMLElement): void {
+    this.remove();
+
+    const doc = editorDom.ownerDocument;
+    this.editorDom = editorDom;
+    this.scrollerEl = scrollerEl;
+    this.bandEl = doc.createElement('div');
+    this.bandEl.className = 'smooth-cursor-line-highlight';
+    this.gutterEl = doc.createElement('div');
+    this.gutterEl.className = 'smooth-cursor-line-highlight smooth-cursor-line-highlight-gutter';
+    this.hide();
+    scrollerEl.prepend(this.bandEl);
+  }
+
+  /**
+   * Move the bands to the cursor's visual line
+   * @param top - Top of the cursor's visual line in viewport coordinates
+   * @param height - Height of the visual line
+   * @param band - Horizontal extent of the line band in viewport coordinates
+   * @param gutters - Gutters element (.cm-gutters) the gutter band is drawn in, or null to hide the gutter band
+   * @param color - Highlight color
+   * @param opacity - Highlight opacity (0-1)
+   */
+  update(
+    top: number,
+    height: number,
+    band: { left: number; right: number },
+    gutters: HTMLElement | null,
+    color: string,
+    opacity: number
+  ): void {
+    if (!this.bandEl || !this.gutterEl || !this.scrollerEl) return;
+
+    // The band scrolls with the scroller content - convert to its coordinates
+    // (the scroller clips lines scrolled out of view)
+    const scroller = this.scrollerEl;
+    const scrollRect = scroller.getBoundingClientRect();
+    const originX = scrollRect.left + scroller.clientLeft - scroller.scrollLeft;
+    const originY = scrollRect.top + scroller.clientTop - scroller.scrollTop;
+
+    this.editorDom?.classList.add('smooth-cursor-line-highlight-active');
+    this.applyRect(this.bandEl, band.left - originX, top - originY, band.right - band.left, height, color, opacity);
+    if (gutters && gutters.offsetWidth > 0) {
+      // CodeMirror replaces the gutters element when gutters are reconfigured
+      if (this.gutterEl.parentElement !== gutters) {
+        gutters.prepend(this.gutterEl);
+      }
+      const gutterTop = top - gutters.getBoundingClientRect().top;
+      this.applyRect(this.gutterEl, 0, gutterTop, gutters.offsetWidth, height, color, opacity);
+    } else {
+      this.gutterEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Hide bands and give the active line back to CodeMirror
+   */
+  hide(): void {
+    if (this.bandEl) this.bandEl.style.display = 'none';
+    if (this.gutterEl) this.gutterEl.style.display = 'none';
+    this.editorDom?.classList.remove('smooth-cursor-line-highlight-active');
+  }
+
+  /**
+   * Remove band elements
+   */
+  remove(): void {
+    this.hide();
+    this.bandEl?.remove();
+    this.gutterEl?.remove();
+    this.bandEl = null;
+    this.gutterEl = null;
+    this.editorDom = null;
+    this.scrollerEl = null;
+  }
+
+  private applyRect(el: HTMLDivElement, x: number, y: number, width: number, height: number, color: string, opacity: number): void {
+    el.style.display = 'block';
+    el.style.transform = `translate(${x}px, ${y}px)`;
+    el.style.width = `${Math.max(0, width)}px`;
+    el.style.height = `${height}px`;
+    el.style.backgroundColor = color;
+    el.style.opacity = String(opacity);
+  }
+}
@@ -0,0 +1,66 @@
+import type { CursorPosition, LocatorStyle } from '../types';
+
+/**
+ * Locator manager - plays a ring pulsing in on the cursor (or a halo expanding out of it)
+ * so the cursor is easy to find. Both are CSS animations; with reduced motion the ring
+ * is shown briefly without moving.
+ */
+export class LocatorManager {
+  private doc: Document = document;
+  private ringEl: HTMLDivElement | null = null;
+  private removeTimeout: number | null = null;
+  private timeoutWindow: Window = window; // Timer ids belong to the window that created them
+  private ringSize = 120; // Ring diameter at the start of the pulse (px)
+  private duration = 600; // Must match the smooth-cursor-locate animation (ms)
+
+  /**
+   * Set the document rings are drawn in
+   * @param doc - Document of the editor (popout windows have their own)
+   */
+  create(doc: Document = document): void {
+    this.remove();
+    this.doc = doc;
+  }
+
+  /**
+   * Play the locator ring around a cursor rectangle
+   * @param rect - Displayed cursor rectangle in viewport coordinates
+   * @param color - Ring color
+   * @param style - Ring pulsing in or halo expanding out
+   */
+  ping(rect: CursorPosition, color: string, style: LocatorStyle = 'ring'): void {
+    this.remove();
+
+    const centerX = rect.x + rect.width / 2;
+    const centerY = rect.y + rect.height / 2;
+
+    this.ringEl = this.doc.createElement('div');
+    this.ringEl.className = `smooth-cursor-locator smooth-cursor-locator-${style}`;
+    this.ringEl.style.width = `${this.ringSize}px`;
+    this.ringEl.style.height = `${this.ringSize}px`;
+    this.ringEl.style.left = `${centerX - this.ringSize / 2}px`;
+    this.ringEl.style.top = `${centerY - this.ringSize / 2}px`;
+    this.ringEl.style.borderColor = color;
+    this.ringEl.style.color = color; // Halo glow uses currentColor
+    this.doc.body.appendChild(this.ringEl);
+
+    // Timeout instead of animationend - no animation runs with reduced motion
+    this.timeoutWindow = this.doc.defaultView ?? window;
+    this.removeTimeout = this.timeoutWindow.setTimeout(() => {
+      this.removeTimeout = null;
+      this.remove();
+    }, this.duration);
+  }
+
+  /**
+   * Remove the ring immediately
+   */
+  remove(): void {
+    if (this.removeTimeout !== null) {
+      this.timeoutWindow.clearTimeout(this.removeTimeout);
+      this.removeTimeout = null;
+    }
+    this.ringEl?.remove();
+    this.ringEl = null;
+  }
+}
@@ -135,8 +135,9 @@ export class NativeCursorHider {
       }
       
       if (shouldHide) {
-        // Use requestAnimationFrame to ensure DOM is ready
-        requestAnimationFrame(() => {
+        // Use requestAnimationFrame of the editor's window to ensure DOM is ready
+        const win = this.editorView?.dom.ownerDocument.defaultView ?? window;
+        win.requestAnimationFrame(() => {
           if (this.isActive) {
             this.hideNativeCursors();
           }
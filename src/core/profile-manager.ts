@@ -0,0 +1,192 @@
+import { FuzzySuggestModal, Notice } from 'obsidian';
+import type SmoothCursorPlugin from '../main';
+import type { ProfileSettings, SettingsProfile, SmoothCursorSettings } from '../types';
+import { t } from '../i18n';
+
+/**
+ * Take a deep copy of the settings stored in a profile
+ */
+function snapshotSettings(settings: SmoothCursorSettings): ProfileSettings {
+  const snapshot: Partial<SmoothCursorSettings> = JSON.parse(JSON.stringify(settings));
+  delete snapshot.profiles;
+  delete snapshot.activeProfileId;
+  delete snapshot.debug;
+  return snapshot as ProfileSettings;
+}
+
+/**
+ * Profile manager - saves the current settings as named profiles and switches between them
+ * Every profile gets its own command (`apply-profile-<id>`) so it can be bound to a hotkey.
+ * Commands of deleted profiles stay registered until reload but are disabled.
+ */
+export class ProfileManager {
+  private plugin: SmoothCursorPlugin;
+  private registeredCommandIds: Set<string> = new Set();
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Register the profile commands (switcher, cycle, one per profile)
+   */
+  registerCommands(): void {
+    this.plugin.addCommand({
+      id: 'switch-profile',
+      name: t('command.switchProfile'),
+      checkCallback: (checking) => {
+        if (this.getProfiles().length === 0) return false;
+        if (!checking) {
+          new ProfileSuggestModal(this.plugin, this).open();
+        }
+        return true;
+      },
+    });
+
+    this.plugin.addCommand({
+      id: 'cycle-profile',
+      name: t('command.cycleProfile'),
+      checkCallback: (checking) => {
+        if (this.getProfiles().length === 0) return false;
+        if (!checking) {
+          void this.applyNext();
+        }
+        return true;
+      },
+    });
+
+    for (const profile of this.getProfiles()) {
+      this.registerProfileCommand(profile);
+    }
+  }
+
+  /**
+   * Get all saved profiles
+   */
+  getProfiles(): SettingsProfile[] {
+    return this.plugin.settings.profiles;
+  }
+
+  /**
+   * Get the profile the current settings were loaded from
+   */
+  getActiveProfile(): SettingsProfile | null {
+    return this.getProfiles().find((profile) => profile.id === this.plugin.settings.activeProfileId) ?? null;
+  }
+
+  /**
+   * Save the current settings as a new profile
+   * @param name - Profile name (a profile with the same name is overwritten)
+   */
+  async saveCurrentAs(name: string): Promise<SettingsProfile> {
+    const existing = this.getProfiles().find((profile) => profile.name === name);
+    if (existing) {
+      await this.overwrite(existing.id);
+      return existing;
+    }
+
+    const profile: SettingsProfile = {
+      id: Date.now().toString(36),
+      name,
+      settings: snapshotSettings(this.plugin.settings),
+    };
+    this.plugin.settings.profiles.push(profile);
+    this.plugin.settings.activeProfileId = profile.id;
+    this.registerProfileCommand(profile);
+    await this.plugin.saveSettings();
+    return profile;
+  }
+
+  /**
+   * Replace a profile's settings with the current settings
+   */
+  async overwrite(id: string): Promise<void> {
+    const profile = this.getProfiles().find((p) => p.id === id);
+    if (!profile) return;
+
+    profile.settings = snapshotSettings(this.plugin.settings);
+    this.plugin.settings.activeProfileId = profile.id;
+    await this.plugin.saveSettings();
+  }
+
+  /**
+   * Apply a profile to the current settings
+   * Settings missing from older profiles keep their current values
+   */
+  async apply(id: string): Promise<void> {
+    const profile = this.getProfiles().find((p) => p.id === id);
+    if (!profile) return;
+
+    Object.assign(this.plugin.settings, JSON.parse(JSON.stringify(profile.settings)));
+    this.plugin.settings.activeProfileId = profile.id;
+    await this.plugin.saveSettings();
+    this.plugin.updateCursorStyle();
+    new Notice(t('notice.profileApplied', { name: profile.name }));
+  }
+
+  /**
+   * Apply the profile after the active one (wraps around)
+   */
+  async applyNext(): Promise<void> {
+    const profiles = this.getProfiles();
+    if (profiles.length === 0) return;
+
+    const index = profiles.findIndex((profile) => profile.id === this.plugin.settings.activeProfileId);
+    await this.apply(profiles[(index + 1) % profiles.length].id);
+  }
+
+  /**
+   * Delete a profile
+   */
+  async delete(id: string): Promise<void> {
+    this.plugin.settings.profiles = this.getProfiles().filter((profile) => profile.id !== id);
+    if (this.plugin.settings.activeProfileId === id) {
+      this.plugin.settings.activeProfileId = '';
+    }
+    await this.plugin.saveSettings();
+  }
+
+  private registerProfileCommand(profile: SettingsProfile): void {
+    const commandId = `apply-profile-${profile.id}`;
+    if (this.registeredCommandIds.has(commandId)) return;
+    this.registeredCommandIds.add(commandId);
+
+    this.plugin.addCommand({
+      id: commandId,
+      name: t('command.applyProfile', { name: profile.name }),
+      checkCallback: (checking) => {
+        // Deleted profiles keep their command until reload
+        if (!this.getProfiles().some((p) => p.id === profile.id)) return false;
+        if (!checking) {
+          void this.apply(profile.id);
+        }
+        return true;
+      },
+    });
+  }
+}
+
+/**
+ * Command palette picker for profiles
+ */
+class ProfileSuggestModal extends FuzzySuggestModal<SettingsProfile> {
+  private profileManager: ProfileManager;
+
+  constructor(plugin: SmoothCursorPlugin, profileManager: ProfileManager) {
+    super(plugin.app);
+    this.profileManager = profileManager;
+    this.setPlaceholder(t('profile.placeholder'));
+  }
+
+  getItems(): SettingsProfile[] {
+    return this.profileManager.getProfiles();
+  }
+
+  getItemText(profile: SettingsProfile): string {
+    return profile.id === this.profileManager.getActiveProfile()?.id ? t('profile.current', { name: profile.name }) : profile.name;
+  }
+
+  onChooseItem(profile: SettingsProfile): void {
+    void this.profileManager.apply(profile.id);
+  }
+}
@@ -0,0 +1,158 @@
+import type SmoothCursorPlugin from '../main';
+import type { CursorModeColor, CursorPosition, CursorShape } from '../types';
+import { AnimationEngine, createWindowClock } from '../animation';
+import { CursorElementManager } from './cursor-element-manager';
+
+/**
+ * A pooled secondary cursor with its own element and animation engine
+ */
+interface SecondaryCursor {
+  elementManager: CursorElementManager;
+  animationEngine: AnimationEngine;
+}
+
+/**
+ * Secondary cursor manager - keeps a pool of cursor elements in sync with
+ * the non-main selection ranges (multi-cursor editing)
+ * Pool entries are keyed by the range's index among the secondary ranges,
+ * so each cursor animates from its previous range position
+ */
+export class SecondaryCursorManager {
+  private plugin: SmoothCursorPlugin;
+  private cursors: SecondaryCursor[] = [];
+  private editorId = '';
+  private doc: Document = document;
+  private shape: CursorShape = 'block';
+  private color: CursorModeColor | null = null;
+  private lineHeight = 20;
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Set editor id and document used for newly created cursor elements
+   */
+  setEditorContext(editorId: string, doc: Document): void {
+    this.editorId = editorId;
+    this.doc = doc;
+  }
+
+  /**
+   * Update cursor shape for all secondary cursors
+   */
+  setShape(shape: CursorShape): void {
+    this.shape = shape;
+    for (const cursor of this.cursors) {
+      cursor.elementManager.updateShape(shape);
+    }
+  }
+
+  /**
+   * Update cursor color for all secondary cursors
+   */
+  setColor(color: CursorModeColor): void {
+    this.color = color;
+    for (const cursor of this.cursors) {
+      cursor.elementManager.setColor(color.color, color.opacity);
+    }
+  }
+
+  /**
+   * Sync the pool with the given targets
+   * @param targets - Shape-adjusted target per secondary range, null if the range is off-screen
+   * @param lineHeight - Editor line height (used for underline offset)
+   * @param isTyping - Whether this update comes from typing
+   * @param immediate - Skip animation (scrolling, first show)
+   */
+  update(targets: Array<CursorPosition | null>, lineHeight: number, isTyping: boolean, immediate: boolean): void {
+    this.lineHeight = lineHeight;
+
+    // Shrink pool when ranges were removed
+    while (this.cursors.length > targets.length) {
+      this.destroyCursor(this.cursors.pop() as SecondaryCursor);
+    }
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      let cursor = this.cursors[i];
+      const isNew = !cursor;
+
+      if (!cursor) {
+        cursor = this.createCursor();
+        this.cursors.push(cursor);
+      }
+
+      if (!target) {
+        cursor.elementManager.hide();
+        continue;
+      }
+
+      const cursorEl = cursor.elementManager.getElement();
+      const wasHidden = !cursorEl || cursorEl.style.display === 'none';
+      cursor.elementManager.show();
+
+      if (isNew || immediate || wasHidden) {
+        cursor.animationEngine.setImmediate(target);
+      } else {
+        cursor.animationEngine.animateTo(target, isTyping);
+      }
+    }
+  }
+
+  /**
+   * Hide all secondary cursors (keeps pool)
+   */
+  hideAll(): void {
+    for (const cursor of this.cursors) {
+      cursor.animationEngine.stop();
+      cursor.elementManager.hide();
+    }
+  }
+
+  /**
+   * Remove all secondary cursors
+   */
+  clear(): void {
+    for (const cursor of this.cursors) {
+      this.destroyCursor(cursor);
+    }
+    this.cursors = [];
+  }
+
+  /**
+   * Get number of pooled secondary cursors
+   */
+  getCount(): number {
+    return this.cursors.length;
+  }
+
+  private createCursor(): SecondaryCursor {
+    const elementManager = new CursorElementManager(this.plugin.settings, 'secondary');
+    elementManager.create(this.editorId, this.doc);
+    elementManager.updateShape(this.shape);
+    if (this.color) {
+      elementManager.setColor(this.color.color, this.color.opacity);
+    }
+
+    const animationEngine = new AnimationEngine(this.plugin, createWindowClock(this.doc.defaultView ?? window));
+    animationEngine.setOnFrame((pos) => {
+      const yOffset = this.shape === 'underline' ? this.lineHeight - pos.height : 0;
+      elementManager.updatePosition(
+        pos.x,
+        pos.y,
+        pos.width,
+        pos.height,
+        this.plugin.settings.useTransformAnimation,
+        yOffset
+      );
+    });
+
+    return { elementManager, animationEngine };
+  }
+
+  private destroyCursor(cursor: SecondaryCursor): void {
+    cursor.animationEngine.stop();
+    cursor.elementManager.remove();
+  }
+}
@@ -0,0 +1,142 @@
+import type SmoothCursorPlugin from '../main';
+import type { CursorPosition } from '../types';
+import { AnimationEngine, createWindowClock } from '../animation';
+
+/**
+ * A pooled selection rectangle with its own element and animation engine
+ */
+interface SelectionRect {
+  el: HTMLDivElement;
+  animationEngine: AnimationEngine;
+}
+
+/**
+ * Selection overlay manager - draws the visual mode selection with animated rectangles
+ * Rectangles are pooled by index, so a growing selection animates from its previous extents;
+ * newly added rectangles start from the last existing one.
+ * CodeMirror's own selection background is hidden while the overlay is shown.
+ */
+export class SelectionOverlayManager {
+  private plugin: SmoothCursorPlugin;
+  private layerEl: HTMLDivElement | null = null;
+  private rects: SelectionRect[] = [];
+  private doc: Document = document;
+  private editorDom: HTMLElement | null = null;
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Create the overlay layer
+   * @param editorDom - Editor root element (receives the class hiding CodeMirror's selection)
+   */
+  create(editorDom: HTMLElement): void {
+    this.remove();
+
+    this.editorDom = editorDom;
+    this.doc = editorDom.ownerDocument;
+    this.layerEl = this.doc.createElement('div');
+    this.layerEl.className = 'smooth-cursor-selection-layer';
+    this.doc.body.appendChild(this.layerEl);
+  }
+
+  /**
+   * Sync the overlay with the selection rectangles
+   * @param targets - Selection rectangles in viewport coordinates
+   * @param immediate - Skip animation (scrolling, first show)
+   */
+  update(targets: CursorPosition[], immediate: boolean): void {
+    if (!this.layerEl) return;
+
+    if (targets.length === 0) {
+      this.hide();
+      return;
+    }
+
+    this.editorDom?.classList.add('smooth-cursor-selection-active');
+    this.layerEl.style.display = '';
+
+    while (this.rects.length > targets.length) {
+      this.destroyRect(this.rects.pop() as SelectionRect);
+    }
+
+    for (let i = 0; i < targets.length; i++) {
+      let rect = this.rects[i];
+      if (!rect) {
+        // Grow new rectangles out of the previous last one
+        const from = this.rects.length > 0
+          ? this.rects[this.rects.length - 1].animationEngine.getCurrentPosition()
+          : targets[i];
+        rect = this.createRect();
+        rect.animationEngine.setImmediate(immediate ? targets[i] : from);
+        this.rects.push(rect);
+      }
+
+      if (immediate) {
+        rect.animationEngine.setImmediate(targets[i]);
+      } else {
+        rect.animationEngine.animateTo(targets[i], false);
+      }
+    }
+  }
+
+  /**
+   * Update overlay color and opacity from settings
+   */
+  updateStyle(): void {
+    for (const rect of this.rects) {
+      this.applyStyle(rect.el);
+    }
+  }
+
+  /**
+   * Hide the overlay and give the selection back to CodeMirror
+   */
+  hide(): void {
+    for (const rect of this.rects) {
+      this.destroyRect(rect);
+    }
+    this.rects = [];
+    if (this.layerEl) {
+      this.layerEl.style.display = 'none';
+    }
+    this.editorDom?.classList.remove('smooth-cursor-selection-active');
+  }
+
+  /**
+   * Remove the overlay layer
+   */
+  remove(): void {
+    this.hide();
+    this.layerEl?.remove();
+    this.layerEl = null;
+    this.editorDom = null;
+  }
+
+  private createRect(): SelectionRect {
+    const el = this.doc.createElement('div');
+    el.className = 'smooth-cursor-selection-rect';
+    this.applyStyle(el);
+    this.layerEl?.appendChild(el);
+
+    const animationEngine = new AnimationEngine(this.plugin, createWindowClock(this.doc.defaultView ?? window));
+    animationEngine.setOnFrame((pos) => {
+      el.style.transform = `translate(${pos.x}px, ${pos.y}px)`;
+      el.style.width = `${Math.max(0, pos.width)}px`;
+      el.style.height = `${Math.max(0, pos.height)}px`;
+    });
+
+    return { el, animationEngine };
+  }
+
+  private applyStyle(el: HTMLDivElement): void {
+    el.style.backgroundColor = this.plugin.settings.selectionOverlayColor;
+    el.style.opacity = String(this.plugin.settings.selectionOverlayOpacity);
+  }
+
+  private destroyRect(rect: SelectionRect): void {
+    rect.animationEngine.stop();
+    rect.el.remove();
+  }
+}
@@ -0,0 +1,226 @@
+import type { EditorView } from '@codemirror/view';
+import type SmoothCursorPlugin from '../main';
+import { createWindowClock, type AnimationClock } from '../animation';
+import { cubicBezier, EASING_CURVES } from '../interpolators';
+import { shouldReduceMotion } from '../cursor-utils';
+import { EventManager } from './event-manager';
+
+/**
+ * Vim page motions that scroll the viewport
+ * Ctrl-D/U/F/B are matched with the Ctrl modifier, the rest as two-key sequences
+ */
+const CTRL_PAGE_MOTIONS = new Set(['d', 'u', 'f', 'b']);
+const SEQUENCE_PAGE_MOTIONS = new Set(['zz', 'zt', 'zb', 'gg']);
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta']);
+
+const ARM_TIMEOUT_MS = 100; // How long after the key the motion's scroll is expected
+const MIN_SCROLL_DISTANCE = 2; // Smaller jumps are not animated (px)
+
+/**
+ * Smooth scroll manager - animates the viewport jumps of vim page motions
+ * The motion's instant scroll is caught in the scroll event (before it is painted), reverted and
+ * replayed with easing. Each frame calls the frame callback so the cursor overlay moves with the text.
+ */
+export class SmoothScrollManager {
+  private plugin: SmoothCursorPlugin;
+  private editorView: EditorView | null = null;
+  private clock: AnimationClock = createWindowClock(window);
+  private eventManager = new EventManager();
+  private easing = cubicBezier(...EASING_CURVES['ease-out']);
+  private lastKey = '';
+
+  // Motion waiting for its scroll
+  private pendingFromTop: number | null = null;
+  private armTimeout: number | null = null;
+
+  // Running animation
+  private rafId: number | null = null;
+  private fromTop = 0;
+  private targetTop = 0;
+  private startTime = 0;
+  private expectedTop = -1; // Last scrollTop written here, its scroll event is ignored
+
+  private onFrameCallback: (() => void) | null = null;
+  private onEndCallback: (() => void) | null = null;
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Attach to an editor
+   */
+  attach(editorView: EditorView): void {
+    this.detach();
+    this.editorView = editorView;
+    this.clock = createWindowClock(editorView.dom.ownerDocument.defaultView ?? window);
+
+    const scrollDOM = editorView.scrollDOM;
+    // Capture phase, so the scroll position is read before vim handles the key
+    this.eventManager.addEventListener(editorView.dom, 'keydown', this.handleKeydown, true);
+    this.eventManager.addEventListener(scrollDOM, 'scroll', this.handleScroll, { passive: true });
+
+    // User scrolling takes over from a running animation
+    const interrupt = () => this.stop(false);
+    this.eventManager.addEventListener(scrollDOM, 'wheel', interrupt, { passive: true });
+    this.eventManager.addEventListener(scrollDOM, 'touchstart', interrupt, { passive: true });
+    this.eventManager.addEventListener(scrollDOM, 'mousedown', interrupt);
+  }
+
+  /**
+   * Detach from the current editor, finishing a running animation
+   */
+  detach(): void {
+    this.stop(true);
+    this.clearPending();
+    this.eventManager.removeAll();
+    this.editorView = null;
+    this.lastKey = '';
+  }
+
+  /**
+   * Called on every animation frame after scrollTop was updated
+   */
+  setOnFrame(callback: () => void): void {
+    this.onFrameCallback = callback;
+  }
+
+  /**
+   * Called when an animation finishes or is interrupted
+   */
+  setOnEnd(callback: () => void): void {
+    this.onEndCallback = callback;
+  }
+
+  /**
+   * Whether the viewport is being animated
+   */
+  isAnimating(): boolean {
+    return this.rafId !== null;
+  }
+
+  /**
+   * Stop the running animation
+   * @param jumpToTarget - Finish at the target instead of staying at the current position
+   */
+  stop(jumpToTarget: boolean): void {
+    if (this.rafId === null) return;
+
+    this.clock.cancelFrame(this.rafId);
+    this.rafId = null;
+    if (jumpToTarget) {
+      this.setScrollTop(this.targetTop);
+    }
+    this.onEndCallback?.();
+  }
+
+  private isEnabled(): boolean {
+    const settings = this.plugin.settings;
+    return settings.enableSmoothScroll && !shouldReduceMotion(settings);
+  }
+
+  private handleKeydown = (evt: KeyboardEvent) => {
+    if (!this.editorView || !this.isEnabled()) return;
+    if (!this.editorView.contentDOM.contains(evt.target as Node)) return;
+    if (!this.isPageMotion(evt)) return;
+
+    // Continue from what is on screen; vim measures from the previous motion's target
+    const visibleTop = this.editorView.scrollDOM.scrollTop;
+    this.stop(true);
+
+    this.clearPending();
+    this.pendingFromTop = visibleTop;
+    this.armTimeout = window.setTimeout(() => this.handleArmTimeout(), ARM_TIMEOUT_MS);
+  };
+
+  private handleScroll = () => {
+    if (!this.editorView) return;
+
+    const scrollTop = this.editorView.scrollDOM.scrollTop;
+    if (Math.abs(scrollTop - this.expectedTop) < 1) return;
+
+    // First scroll after a page motion - replay it smoothly
+    if (this.pendingFromTop !== null) {
+      const fromTop = this.pendingFromTop;
+      this.clearPending();
+      this.start(fromTop, scrollTop);
+    }
+  };
+
+  /**
+   * The motion did not scroll by itself (e.g. only the finished animation moved the viewport)
+   */
+  private handleArmTimeout() {
+    this.armTimeout = null;
+    if (this.pendingFromTop === null || !this.editorView) return;
+
+    const fromTop = this.pendingFromTop;
+    this.pendingFromTop = null;
+    this.start(fromTop, this.editorView.scrollDOM.scrollTop);
+  }
+
+  /**
+   * Match Ctrl-D/U/F/B, zz/zt/zb, gg and G (counts may precede them)
+   */
+  private isPageMotion(evt: KeyboardEvent): boolean {
+    if (MODIFIER_KEYS.has(evt.key)) return false;
+
+    const mode = this.plugin.getVimMode();
+    if (mode === 'insert' || mode === 'replace' || mode === 'command') {
+      this.lastKey = '';
+      return false;
+    }
+
+    if (evt.altKey || evt.metaKey || evt.ctrlKey) {
+      this.lastKey = '';
+      return evt.ctrlKey && !evt.altKey && !evt.metaKey && CTRL_PAGE_MOTIONS.has(evt.key.toLowerCase());
+    }
+
+    if (evt.key === 'G' || SEQUENCE_PAGE_MOTIONS.has(this.lastKey + evt.key)) {
+      this.lastKey = '';
+      return true;
+    }
+    this.lastKey = evt.key;
+    return false;
+  }
+
+  private start(fromTop: number, targetTop: number) {
+    if (Math.abs(targetTop - fromTop) < MIN_SCROLL_DISTANCE) return;
+
+    this.fromTop = fromTop;
+    this.targetTop = targetTop;
+    this.startTime = this.clock.now();
+    this.setScrollTop(fromTop);
+    this.onFrameCallback?.();
+    this.rafId = this.clock.requestFrame(this.step);
+  }
+
+  private step = () => {
+    const duration = this.plugin.settings.smoothScrollDuration;
+    const progress = Math.min(1, (this.clock.now() - this.startTime) / duration);
+    this.setScrollTop(this.fromTop + (this.targetTop - this.fromTop) * this.easing(progress));
+    this.onFrameCallback?.();
+
+    if (progress < 1) {
+      this.rafId = this.clock.requestFrame(this.step);
+    } else {
+      this.rafId = null;
+      this.onEndCallback?.();
+    }
+  };
+
+  private setScrollTop(scrollTop: number) {
+    if (!this.editorView) return;
+    this.editorView.scrollDOM.scrollTop = scrollTop;
+    // Read back - the browser rounds and clamps the value
+    this.expectedTop = this.editorView.scrollDOM.scrollTop;
+  }
+
+  private clearPending() {
+    this.pendingFromTop = null;
+    if (this.armTimeout !== null) {
+      clearTimeout(this.armTimeout);
+      this.armTimeout = null;
+    }
+  }
+}
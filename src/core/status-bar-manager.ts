@@ -1,13 +1,17 @@
-import type { VimMode } from '../types';
+import { Menu } from 'obsidian';
 import type SmoothCursorPlugin from '../main';
+import { getCursorColorForMode } from '../cursor-utils';
+import { t } from '../i18n';
 
 /**
- * Status bar manager for displaying cursor mode information
+ * Status bar manager - shows the current vim mode in that mode's cursor color
+ * Clicking the indicator opens a quick menu for common toggles, profiles and commands.
+ * Hidden while Obsidian's vim key bindings are off.
  */
 export class StatusBarManager {
   private plugin: SmoothCursorPlugin;
   private statusBarEl: HTMLElement | null = null;
-  private modeUnsubscribe: (() => void) | null = null;
+  private unsubscribers: (() => void)[] = [];
 
   constructor(plugin: SmoothCursorPlugin) {
     this.plugin = plugin;
@@ -18,44 +22,119 @@ export class StatusBarManager {
    */
   setup(): void {
     this.statusBarEl = this.plugin.addStatusBarItem();
-    this.statusBarEl.addClass('smooth-cursor-status');
+    this.statusBarEl.addClass('smooth-cursor-status', 'mod-clickable');
+    this.statusBarEl.addEventListener('click', (evt) => this.openMenu(evt));
     this.update();
-    
-    // Listen for mode changes to update status bar
-    this.modeUnsubscribe = this.plugin.vimState?.onModeChange(() => {
-      this.update();
-    }) ?? null;
+
+    // Vim key bindings toggled in Obsidian's editor settings
+    this.plugin.registerEvent(this.plugin.app.vault.on('config-changed', () => this.update()));
+
+    // Listen for mode and pending input changes to update status bar
+    const vimState = this.plugin.vimState;
+    if (vimState) {
+      this.unsubscribers.push(
+        vimState.onModeChange(() => this.update()),
+        vimState.onPendingInputChange(() => this.update())
+      );
+    }
   }
 
   /**
    * Update status bar content
    */
   update(): void {
-    if (!this.statusBarEl || !this.plugin.settings.debug) {
-      if (this.statusBarEl) {
-        this.statusBarEl.empty();
-      }
-      return;
-    }
+    if (!this.statusBarEl) return;
 
-    const mode = this.plugin.getVimMode();
+    const settings = this.plugin.settings;
+    const visible = settings.showStatusBarMode && this.plugin.app.vault.getConfig('vimMode') === true;
     this.statusBarEl.empty();
-    
+    this.statusBarEl.toggle(visible);
+    if (!visible) return;
+
+    const mode = this.plugin.getVimMode();
     const indicator = this.statusBarEl.createEl('span', {
       cls: `smooth-cursor-mode-indicator ${mode}`,
-      text: mode.toUpperCase(),
+      text: mode.replace('-', ' ').toUpperCase(),
     });
-    indicator.setAttribute('aria-label', `Smooth Cursor: ${mode} mode`);
+    indicator.style.setProperty('--smooth-cursor-mode-color', getCursorColorForMode(settings, mode).color);
+    this.statusBarEl.setAttribute('aria-label', t('statusBar.tooltip', { mode: t(`mode.${mode}`) }));
+
+    const pendingInput = this.plugin.vimState?.getPendingInput() ?? '';
+    if (settings.showStatusBarPendingInput && pendingInput) {
+      this.statusBarEl.createEl('span', { cls: 'smooth-cursor-pending-input', text: pendingInput });
+    }
   }
 
   /**
    * Remove status bar item
    */
   remove(): void {
-    this.modeUnsubscribe?.();
-    this.modeUnsubscribe = null;
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
     this.statusBarEl?.remove();
     this.statusBarEl = null;
   }
-}
 
+  private openMenu(evt: MouseEvent): void {
+    const settings = this.plugin.settings;
+    const menu = new Menu();
+
+    menu.addItem((item) =>
+      item
+        .setTitle(t('settings.enableAnimation.name'))
+        .setChecked(settings.enableAnimation)
+        .onClick(async () => {
+          settings.enableAnimation = !settings.enableAnimation;
+          await this.plugin.saveSettings();
+          this.plugin.updateCursorStyle();
+        })
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle(t('settings.enableBreathing.name'))
+        .setChecked(settings.enableBreathingAnimation)
+        .onClick(async () => {
+          settings.enableBreathingAnimation = !settings.enableBreathingAnimation;
+          await this.plugin.saveSettings();
+          this.plugin.updateCursorStyle();
+        })
+    );
+
+    const profileManager = this.plugin.profileManager;
+    const profiles = profileManager.getProfiles();
+    if (profiles.length > 0) {
+      menu.addSeparator();
+      const activeProfile = profileManager.getActiveProfile();
+      for (const profile of profiles) {
+        menu.addItem((item) =>
+          item
+            .setTitle(profile.name)
+            .setChecked(profile.id === activeProfile?.id)
+            .onClick(() => profileManager.apply(profile.id))
+        );
+      }
+    }
+
+    menu.addSeparator();
+    menu.addItem((item) =>
+      item
+        .setTitle(t('command.locateCursor'))
+        .setIcon('locate')
+        .onClick(() => this.plugin.cursorRenderer?.locateCursor())
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle(t('command.forceRefresh'))
+        .setIcon('refresh-cw')
+        .onClick(() => this.plugin.forceRefreshCursor())
+    );
+    menu.addItem((item) =>
+      item
+        .setTitle(t('command.showDiagnostic'))
+        .setIcon('stethoscope')
+        .onClick(() => this.plugin.showCursorDiagnostic())
+    );
+
+    menu.showAtMouseEvent(evt);
+  }
+}
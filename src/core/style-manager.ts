@@ -1,49 +1,65 @@
 import type { SmoothCursorSettings } from '../types';
+import { SECONDARY_CURSOR_OPACITY_FACTOR } from './cursor-element-manager';
+import { resolveCursorColor } from '../cursor-utils';
 
 /**
  * Style manager for cursor CSS styles
+ * Keeps one style element per document (main window and each popout window)
  */
 export class StyleManager {
-  private styleEl: HTMLStyleElement | null = null;
+  private styleEls: Map<Document, HTMLStyleElement> = new Map();
 
   /**
-   * Inject styles into document head
+   * Inject styles into a document head
+   * @param doc - Target document (defaults to the main window)
    */
-  injectStyles(settings: SmoothCursorSettings): void {
-    if (this.styleEl) {
-      this.styleEl.remove();
-    }
+  injectStyles(settings: SmoothCursorSettings, doc: Document = document): void {
+    this.styleEls.get(doc)?.remove();
 
-    this.styleEl = document.createElement('style');
-    this.styleEl.id = 'smooth-cursor-styles';
-    this.styleEl.textContent = this.generateStyles(settings);
-    document.head.appendChild(this.styleEl);
+    const styleEl = doc.createElement('style');
+    styleEl.id = 'smooth-cursor-styles';
+    styleEl.textContent = this.generateStyles(settings, doc);
+    doc.head.appendChild(styleEl);
+    this.styleEls.set(doc, styleEl);
   }
 
   /**
-   * Update styles when settings change
+   * Update styles in every document when settings or the theme change
+   * Each document resolves theme-aware colors against its own body
    */
   updateStyles(settings: SmoothCursorSettings): void {
-    if (this.styleEl) {
-      this.styleEl.textContent = this.generateStyles(settings);
-    }
+    this.styleEls.forEach((styleEl, doc) => {
+      styleEl.textContent = this.generateStyles(settings, doc);
+    });
   }
 
   /**
-   * Remove styles from document
+   * Check if styles are injected into a document
    */
-  removeStyles(): void {
-    if (this.styleEl) {
-      this.styleEl.remove();
-      this.styleEl = null;
+  hasStyles(doc: Document): boolean {
+    return this.styleEls.has(doc);
+  }
+
+  /**
+   * Remove styles from a document, or from every document if none is given
+   */
+  removeStyles(doc?: Document): void {
+    if (doc) {
+      this.styleEls.get(doc)?.remove();
+      this.styleEls.delete(doc);
+      return;
     }
+
+    this.styleEls.forEach((styleEl) => styleEl.remove());
+    this.styleEls.clear();
   }
 
   /**
    * Generate CSS styles from settings
    */
-  private generateStyles(settings: SmoothCursorSettings): string {
-    const { cursorColor, cursorOpacity, animationDuration, enableBreathingAnimation, breathingAnimationDuration, breathingMinOpacity } = settings;
+  private generateStyles(settings: SmoothCursorSettings, doc: Document): string {
+    const cursorColor = resolveCursorColor(settings, doc);
+    const { cursorOpacity, animationDuration, enableBreathingAnimation, breathingAnimationDuration, breathingMinOpacity } = settings;
     // Convert animation duration from ms to seconds for CSS
     const transitionDuration = animationDuration / 1000;
     
@@ -83,14 +99,15 @@ export class StyleManager {
         background-color: ${cursorColor};
         border-radius: 1px;
         will-change: transform, width, height, opacity;
-        transition: background-color 0.15s ease;
+        transition: background-color 0.15s ease, box-shadow 0.15s ease;
         /* Note: opacity is set dynamically to allow animation override */
         /* Note: width/height transitions removed - handled by JavaScript animation engine */
       }
       
       /* Set default opacity only when not breathing */
+      /* --smooth-cursor-opacity carries the per-mode opacity */
       .smooth-cursor:not(.breathing) {
-        opacity: ${cursorOpacity};
+        opacity: var(--smooth-cursor-opacity, ${cursorOpacity});
       }
 
       .smooth-cursor.block {
@@ -106,6 +123,53 @@ export class StyleManager {
         bottom: 0;
       }
 
+      /* Character under the block cursor */
+      .smooth-cursor .smooth-cursor-char {
+        display: block;
+        width: 100%;
+        height: 100%;
+        white-space: pre;
+        overflow: visible;
+        pointer-events: none;
+      }
+
+      .smooth-cursor:not([data-shape="block"]) .smooth-cursor-char {
+        display: none;
+      }
+
+      /* Hollow block - outline only, fill fades out via the background-color transition */
+      .smooth-cursor[data-shape="hollow"] {
+        background-color: transparent !important;
+        box-shadow: inset 0 0 0 1px var(--smooth-cursor-color, ${cursorColor});
+      }
+
+      /* Secondary cursors (multi-cursor editing) - dimmed and never breathing */
+      .smooth-cursor.smooth-cursor-secondary {
+        opacity: var(--smooth-cursor-opacity, ${cursorOpacity * SECONDARY_CURSOR_OPACITY_FACTOR});
+        animation: none !important;
+      }
+
+      /* Animated selection overlay (visual mode) - replaces CodeMirror's selection background */
+      .smooth-cursor-selection-layer {
+        position: fixed;
+        left: 0;
+        top: 0;
+        pointer-events: none;
+        z-index: 99;
+      }
+
+      .smooth-cursor-selection-rect {
+        position: fixed;
+        left: 0;
+        top: 0;
+        border-radius: 2px;
+        pointer-events: none;
+      }
+
+      .smooth-cursor-selection-active .cm-selectionBackground {
+        background: transparent !important;
+      }
+
       /* Cursor blink animation */
       @keyframes smooth-cursor-blink {
         0%, 100% { opacity: ${cursorOpacity}; }
@@ -119,7 +183,7 @@ export class StyleManager {
       /* Breathing animation - smooth pulse effect */
       @keyframes smooth-cursor-breathe {
         0%, 100% { 
-          opacity: ${cursorOpacity}; 
+          opacity: var(--smooth-cursor-opacity, ${cursorOpacity}); 
         }
         50% { 
           opacity: ${Math.max(breathingMinOpacity, 0.1)}; 
@@ -135,7 +199,128 @@ export class StyleManager {
         animation: none !important;
         opacity: var(--smooth-cursor-opacity, ${cursorOpacity}) !important;
       }
+
+      /* Cursor locator - a ring pulsing in on the cursor, or a halo expanding out of it */
+      @keyframes smooth-cursor-locate {
+        0% { transform: scale(1); opacity: 0; }
+        20% { opacity: 0.9; }
+        100% { transform: scale(0.1); opacity: 0; }
+      }
+
+      @keyframes smooth-cursor-halo {
+        0% { transform: scale(0.1); opacity: 0.9; }
+        100% { transform: scale(1); opacity: 0; }
+      }
+
+      .smooth-cursor-locator {
+        position: fixed;
+        pointer-events: none;
+        z-index: 10001;
+        box-sizing: border-box;
+        border: 4px solid;
+        border-radius: 50%;
+        opacity: 0;
+        animation: smooth-cursor-locate 0.6s ease-out forwards;
+      }
+
+      .smooth-cursor-locator.smooth-cursor-locator-halo {
+        border-width: 2px;
+        box-shadow: 0 0 12px currentColor;
+        animation-name: smooth-cursor-halo;
+      }
+
+      /* Flash - a glow bursting out of the cursor */
+      @keyframes smooth-cursor-flash {
+        0% { opacity: 0.9; transform: scale(1); }
+        100% { opacity: 0; transform: scale(2.5); }
+      }
+
+      .smooth-cursor.smooth-cursor-flash::after {
+        content: '';
+        position: absolute;
+        inset: 0;
+        border-radius: 2px;
+        background-color: var(--smooth-cursor-color);
+        box-shadow: 0 0 8px var(--smooth-cursor-color);
+        opacity: 0;
+        animation: smooth-cursor-flash 0.4s ease-out forwards;
+      }
+
+      /* Input fields drawn by the input cursor - hide the native caret */
+      .smooth-cursor-input-active {
+        caret-color: transparent !important;
+      }
+
+      /* Current-line highlight - slides with the cursor */
+      /* Drawn inside .cm-scroller and .cm-gutters, behind their text like CodeMirror's selection layer */
+      .smooth-cursor-line-highlight {
+        position: absolute;
+        left: 0;
+        top: 0;
+        pointer-events: none;
+        z-index: -1;
+      }
+
+      .smooth-cursor-line-highlight-active .cm-scroller,
+      .smooth-cursor-line-highlight-active .cm-gutters {
+        isolation: isolate;
+      }
+
+      .smooth-cursor-line-highlight-active .cm-active,
+      .smooth-cursor-line-highlight-active .cm-activeLine,
+      .smooth-cursor-line-highlight-active .cm-activeLineGutter {
+        background-color: transparent !important;
+      }
+
+      /* Crosshair - cursor line and column highlight */
+      .smooth-cursor-crosshair {
+        position: fixed;
+        left: 0;
+        top: 0;
+        pointer-events: none;
+        z-index: 98;
+      }
+      ${this.generateAccessibilityStyles(settings)}
     `;
   }
+
+  /**
+   * Generate high-contrast and reduced-motion styles
+   */
+  private generateAccessibilityStyles(settings: SmoothCursorSettings): string {
+    let styles = '';
+
+    if (settings.enableHighContrastCursor) {
+      styles += `
+      /* High-contrast cursor - thick outline in the theme's text color, always opaque */
+      .smooth-cursor {
+        outline: 3px solid var(--text-normal) !important;
+        outline-offset: 1px;
+        opacity: 1 !important;
+      }
+      `;
+    }
+
+    if (settings.respectReducedMotion) {
+      styles += `
+      /* Reduced motion - no transitions, no breathing, locator shown without moving */
+      @media (prefers-reduced-motion: reduce) {
+        .smooth-cursor,
+        .smooth-cursor-selection-rect {
+          transition: none !important;
+          animation: none !important;
+        }
+
+        .smooth-cursor-locator,
+        .smooth-cursor.smooth-cursor-flash::after {
+          animation: none !important;
+          opacity: 0.9;
+        }
+      }
+      `;
+    }
+
+    return styles;
+  }
 }
 
@@ -0,0 +1,249 @@
+import { Modal, Notice, Setting } from 'obsidian';
+import type SmoothCursorPlugin from '../main';
+import type { CursorTheme, ProfileSettings, SmoothCursorSettings } from '../types';
+import { THEME_KEYS, THEME_SCHEMA, THEME_VERSION, completeModeMaps, validateSettings } from '../settings-schema';
+import { BUILT_IN_THEMES } from '../theme-presets';
+import { t } from '../i18n';
+
+/**
+ * Outcome of parsing a theme file
+ */
+export interface ThemeImportResult {
+  theme: CursorTheme | null; // null when the file could not be used at all
+  errors: string[]; // Rejected fields (and fatal errors when theme is null)
+  warnings: string[]; // Clamped values and ignored fields
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Theme manager - exports the current look as a versioned JSON theme,
+ * imports themes with validation and applies built-in presets
+ */
+export class ThemeManager {
+  private plugin: SmoothCursorPlugin;
+
+  constructor(plugin: SmoothCursorPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Get the built-in presets
+   */
+  getBuiltInThemes(): CursorTheme[] {
+    return BUILT_IN_THEMES;
+  }
+
+  /**
+   * Build a theme from the current settings
+   * @param name - Theme name stored in the file
+   */
+  exportTheme(name: string): CursorTheme {
+    const settings: Record<string, unknown> = {};
+    for (const key of THEME_KEYS) {
+      settings[key] = JSON.parse(JSON.stringify(this.plugin.settings[key]));
+    }
+    return {
+      schema: THEME_SCHEMA,
+      version: THEME_VERSION,
+      name,
+      settings: settings as Partial<ProfileSettings>,
+    };
+  }
+
+  /**
+   * Serialize the current settings as theme JSON
+   */
+  exportJson(name: string): string {
+    return JSON.stringify(this.exportTheme(name), null, 2);
+  }
+
+  /**
+   * Parse and validate theme JSON
+   * Invalid fields are reported and dropped; out-of-range numbers are clamped to the slider limits.
+   */
+  parseTheme(json: string): ThemeImportResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      return { theme: null, errors: [t('theme.invalidJson', { message: (error as Error).message })], warnings: [] };
+    }
+
+    if (!isRecord(data) || data.schema !== THEME_SCHEMA) {
+      return { theme: null, errors: [t('theme.notTheme', { schema: THEME_SCHEMA })], warnings: [] };
+    }
+    if (typeof data.version !== 'number' || data.version < 1) {
+      return { theme: null, errors: [t('theme.invalidVersion')], warnings: [] };
+    }
+    if (data.version > THEME_VERSION) {
+      return {
+        theme: null,
+        errors: [t('theme.newerVersion', { version: data.version, supported: THEME_VERSION })],
+        warnings: [],
+      };
+    }
+
+    const result = validateSettings(data.settings, THEME_KEYS);
+    const name = typeof data.name === 'string' && data.name.trim() ? data.name.trim() : t('theme.untitled');
+    return {
+      theme: { schema: THEME_SCHEMA, version: THEME_VERSION, name, settings: result.settings },
+      errors: result.errors,
+      warnings: result.warnings,
+    };
+  }
+
+  /**
+   * Apply a validated theme to the current settings
+   * Base mode shapes and colors missing from the theme keep their current values;
+   * sub-mode overrides are replaced by the theme's.
+   */
+  async applyTheme(theme: CursorTheme): Promise<void> {
+    const settings = this.plugin.settings;
+    const patch: Partial<SmoothCursorSettings> = JSON.parse(JSON.stringify(theme.settings));
+
+    completeModeMaps(patch, settings);
+    Object.assign(settings, patch);
+    // The settings no longer match the saved profile
+    settings.activeProfileId = '';
+    await this.plugin.saveSettings();
+    this.plugin.updateCursorStyle();
+  }
+
+  /**
+   * Parse, validate and apply theme JSON
+   * @returns Parse result - the theme is applied only when it is not null
+   */
+  async importJson(json: string): Promise<ThemeImportResult> {
+    const result = this.parseTheme(json);
+    if (result.theme) {
+      await this.applyTheme(result.theme);
+    }
+    return result;
+  }
+}
+
+/**
+ * Modal showing exported theme JSON, or taking theme JSON to import
+ */
+export class ThemeJsonModal extends Modal {
+  private plugin: SmoothCursorPlugin;
+  private mode: 'export' | 'import';
+  private onImported: () => void;
+
+  /**
+   * @param mode - Show the current theme or paste a theme to import
+   * @param onImported - Called after a theme was applied (refreshes the settings tab)
+   */
+  constructor(plugin: SmoothCursorPlugin, mode: 'export' | 'import', onImported: () => void = () => {}) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.mode = mode;
+    this.onImported = onImported;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+
+    if (this.mode === 'export') {
+      this.displayExport(contentEl);
+    } else {
+      this.displayImport(contentEl);
+    }
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  private displayExport(contentEl: HTMLElement): void {
+    const themeManager = this.plugin.themeManager;
+    contentEl.createEl('h3', { text: t('theme.exportTitle') });
+
+    const textArea = contentEl.createEl('textarea', { cls: 'smooth-cursor-theme-json' });
+    textArea.readOnly = true;
+    textArea.rows = 16;
+
+    let name = this.plugin.profileManager.getActiveProfile()?.name ?? t('theme.defaultName');
+    const refresh = () => {
+      textArea.value = themeManager.exportJson(name);
+    };
+    refresh();
+
+    new Setting(contentEl)
+      .setName(t('theme.name'))
+      .addText((text) =>
+        text
+          .setValue(name)
+          .onChange((value) => {
+            name = value.trim() || t('theme.defaultName');
+            refresh();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('theme.copy'))
+          .setCta()
+          .onClick(async () => {
+            // The clipboard can be denied or unavailable (e.g. an unfocused popout window)
+            try {
+              await navigator.clipboard.writeText(textArea.value);
+              new Notice(t('notice.themeCopied'));
+            } catch (error) {
+              new Notice(t('notice.themeCopyFailed', { message: (error as Error).message }));
+            }
+          })
+      );
+  }
+
+  private displayImport(contentEl: HTMLElement): void {
+    const themeManager = this.plugin.themeManager;
+    contentEl.createEl('h3', { text: t('theme.importTitle') });
+    contentEl.createEl('p', { text: t('theme.importDesc') });
+
+    const textArea = contentEl.createEl('textarea', { cls: 'smooth-cursor-theme-json' });
+    textArea.rows = 16;
+    textArea.placeholder = `{ "schema": "${THEME_SCHEMA}", "version": ${THEME_VERSION}, "name": "...", "settings": { ... } }`;
+
+    const messagesEl = contentEl.createDiv({ cls: 'smooth-cursor-theme-messages' });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText(t('theme.import'))
+          .setCta()
+          .onClick(async () => {
+            const result = await themeManager.importJson(textArea.value);
+            messagesEl.empty();
+
+            if (!result.theme) {
+              this.renderMessages(messagesEl, result.errors, 'mod-warning');
+              return;
+            }
+
+            this.onImported();
+            if (result.errors.length === 0 && result.warnings.length === 0) {
+              new Notice(t('notice.themeImported', { name: result.theme.name }));
+              this.close();
+              return;
+            }
+
+            // Keep the modal open so the per-field problems can be read
+            messagesEl.createEl('p', { text: t('theme.importedWithIssues', { name: result.theme.name }) });
+            this.renderMessages(messagesEl, result.errors, 'mod-warning');
+            this.renderMessages(messagesEl, result.warnings, '');
+          })
+      );
+  }
+
+  private renderMessages(containerEl: HTMLElement, messages: string[], cls: string): void {
+    if (messages.length === 0) return;
+    const listEl = containerEl.createEl('ul', { cls });
+    for (const message of messages) {
+      listEl.createEl('li', { text: message });
+    }
+  }
+}
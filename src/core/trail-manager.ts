@@ -0,0 +1,241 @@
+import type { CursorPosition, SmoothCursorSettings } from '../types';
+import { shouldReduceMotion } from '../cursor-utils';
+
+type Point = [number, number];
+
+/**
+ * Convex hull of a small point set (monotone chain), counter-clockwise
+ */
+function getConvexHull(points: Point[]): Point[] {
+  const sorted = points.slice().sort((a, b) => (a[0] - b[0]) || (a[1] - b[1]));
+  const cross = (o: Point, a: Point, b: Point) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const lower: Point[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) {
+      lower.pop();
+    }
+    lower.push(p);
+  }
+
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) {
+      upper.pop();
+    }
+    upper.push(p);
+  }
+
+  lower.pop();
+  upper.pop();
+  return lower.concat(upper);
+}
+
+/**
+ * Get the four corners of a cursor rectangle
+ */
+function getCorners(rect: CursorPosition): Point[] {
+  return [
+    [rect.x, rect.y],
+    [rect.x + rect.width, rect.y],
+    [rect.x + rect.width, rect.y + rect.height],
+    [rect.x, rect.y + rect.height],
+  ];
+}
+
+/**
+ * Trail manager for the Neovide-style smear effect
+ * The leading edge is the animated cursor rectangle, the trailing edge follows it
+ * more slowly; the smear is the convex hull of both, drawn with clip-path.
+ * The trail element is not a `.smooth-cursor`, so breathing/moving opacity rules never apply to it.
+ */
+export class TrailManager {
+  private settings: SmoothCursorSettings;
+  private trailEl: HTMLDivElement | null = null;
+  private ownerWindow: Window = window;
+  private head: CursorPosition = { x: 0, y: 0, width: 0, height: 0 };
+  private tail: CursorPosition = { x: 0, y: 0, width: 0, height: 0 };
+  private initialDistance = 0;
+  private isActive = false;
+  private headMoved = false; // update() ran since start() - until then head and tail are the same rectangle
+  private elapsed = 0;
+  private rafId: number | null = null;
+  private lastFrameTime = 0;
+  private settleDistance = 1; // Hide trail once the trailing edge is this close (px)
+
+  constructor(settings: SmoothCursorSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Create trail element
+   * @param doc - Document of the editor (popout windows have their own)
+   */
+  create(doc: Document = document): void {
+    this.remove();
+
+    this.ownerWindow = doc.defaultView ?? window;
+    this.trailEl = doc.createElement('div');
+    this.trailEl.className = 'smooth-cursor-trail';
+    this.trailEl.style.cssText = `
+      position: fixed !important;
+      display: none;
+      pointer-events: none !important;
+      z-index: 9999 !important;
+      left: 0;
+      top: 0;
+    `;
+    doc.body.appendChild(this.trailEl);
+  }
+
+  /**
+   * Check if a movement is long enough to leave a trail
+   */
+  shouldTrigger(from: CursorPosition, to: CursorPosition): boolean {
+    if (!this.settings.enableTrailEffect || shouldReduceMotion(this.settings)) return false;
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const minDistance = this.settings.trailMinDistance;
+    return dx * dx + dy * dy >= minDistance * minDistance;
+  }
+
+  /**
+   * Start a trail from the cursor's current displayed rectangle
+   * @param from - Displayed cursor rectangle at the start of the jump
+   * @param color - Current cursor color
+   */
+  start(from: CursorPosition, color: string): void {
+    if (!this.trailEl || !this.settings.enableTrailEffect) return;
+
+    this.copyRect(from, this.tail);
+    this.copyRect(from, this.head);
+    this.initialDistance = 0;
+    this.isActive = true;
+    this.headMoved = false;
+    this.elapsed = 0;
+    this.lastFrameTime = 0;
+    this.trailEl.style.backgroundColor = color;
+    this.startLoop();
+  }
+
+  /**
+   * Update the leading edge (called on every cursor animation frame)
+   */
+  update(head: CursorPosition): void {
+    if (!this.isActive) return;
+    this.headMoved = true;
+    this.copyRect(head, this.head);
+    this.initialDistance = Math.max(this.initialDistance, this.getDistance());
+  }
+
+  /**
+   * Hide trail immediately
+   */
+  hide(): void {
+    this.isActive = false;
+    if (this.rafId !== null) {
+      this.ownerWindow.cancelAnimationFrame(this.rafId);
+      this.rafId = null;
+    }
+    if (this.trailEl) {
+      this.trailEl.style.display = 'none';
+    }
+  }
+
+  /**
+   * Remove trail element
+   */
+  remove(): void {
+    this.hide();
+    this.trailEl?.remove();
+    this.trailEl = null;
+  }
+
+  /**
+   * Update settings
+   */
+  updateSettings(settings: SmoothCursorSettings): void {
+    this.settings = settings;
+    if (!settings.enableTrailEffect) {
+      this.hide();
+    }
+  }
+
+  private startLoop(): void {
+    if (this.rafId !== null) return;
+    this.rafId = this.ownerWindow.requestAnimationFrame((time) => this.animate(time));
+  }
+
+  private animate(time: number): void {
+    this.rafId = null;
+    if (!this.isActive || !this.trailEl) return;
+
+    const dt = this.lastFrameTime > 0 ? Math.min(time - this.lastFrameTime, 250) : 16;
+    this.lastFrameTime = time;
+    this.elapsed += dt;
+
+    // The cursor animation may run its first frame after this one - wait for the head to move
+    // (bounded, so a jump that never animates cannot keep the loop alive)
+    if (!this.headMoved) {
+      if (this.elapsed > this.settings.trailLength) {
+        this.hide();
+      } else {
+        this.rafId = this.ownerWindow.requestAnimationFrame((frameTime) => this.animate(frameTime));
+      }
+      return;
+    }
+
+    // Exponential follow - trailing edge closes ~95% of the gap within trailLength ms
+    const timeConstant = Math.max(this.settings.trailLength, 1) / 3;
+    const factor = 1 - Math.exp(-Math.max(0, dt) / timeConstant);
+    this.tail.x += (this.head.x - this.tail.x) * factor;
+    this.tail.y += (this.head.y - this.tail.y) * factor;
+    this.tail.width += (this.head.width - this.tail.width) * factor;
+    this.tail.height += (this.head.height - this.tail.height) * factor;
+
+    const distance = this.getDistance();
+    if (distance < this.settleDistance) {
+      this.hide();
+      return;
+    }
+
+    this.render(distance);
+    this.rafId = this.ownerWindow.requestAnimationFrame((frameTime) => this.animate(frameTime));
+  }
+
+  private render(distance: number): void {
+    if (!this.trailEl) return;
+
+    const hull = getConvexHull(getCorners(this.head).concat(getCorners(this.tail)));
+    const minX = Math.min(...hull.map((p) => p[0]));
+    const minY = Math.min(...hull.map((p) => p[1]));
+    const maxX = Math.max(...hull.map((p) => p[0]));
+    const maxY = Math.max(...hull.map((p) => p[1]));
+    const polygon = hull.map(([x, y]) => `${x - minX}px ${y - minY}px`).join(', ');
+
+    // Fade out as the trailing edge catches up
+    const fade = this.initialDistance > 0 ? Math.min(1, distance / this.initialDistance) : 1;
+
+    this.trailEl.style.display = 'block';
+    this.trailEl.style.transform = `translate(${minX}px, ${minY}px)`;
+    this.trailEl.style.width = `${maxX - minX}px`;
+    this.trailEl.style.height = `${maxY - minY}px`;
+    this.trailEl.style.clipPath = `polygon(${polygon})`;
+    this.trailEl.style.opacity = String(this.settings.trailOpacity * fade);
+  }
+
+  private getDistance(): number {
+    const dx = this.head.x - this.tail.x;
+    const dy = this.head.y - this.tail.y;
+    return Math.sqrt(dx * dx + dy * dy);
+  }
+
+  private copyRect(from: CursorPosition, to: CursorPosition): void {
+    to.x = from.x;
+    to.y = from.y;
+    to.width = from.width;
+    to.height = from.height;
+  }
+}
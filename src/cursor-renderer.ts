@@ -1,33 +1,32 @@
-import { EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import type { EditorView, ViewUpdate } from '@codemirror/view';
+import type { EditorSelection } from '@codemirror/state';
 import type SmoothCursorPlugin from './main';
-import type { AnimationEngine } from './animation';
-import type { CursorPosition, CursorShape, VimMode } from './types';
-import { calculateCursorDimensions } from './cursor-utils';
+import { createWindowClock, type AnimationEngine } from './animation';
+import type { CursorModeColor, CursorMoveEvent, CursorPosition, CursorShape, CursorStyleOverride, LocatorStyle, VimMode } from './types';
+import {
+  calculateCursorDimensions,
+  getCursorColorForMode,
+  getCursorShapeForMode,
+  getSelectionKindForMode,
+  shouldReduceMotion,
+} from './cursor-utils';
 import { CoordinateService } from './services/coordinate-service';
 import { CharacterMeasurementService } from './services/character-measurement-service';
 import { DOMChangeDetectorService } from './services/dom-change-detector-service';
+import { SelectionGeometryService } from './services/selection-geometry-service';
 import { CursorElementManager } from './core/cursor-element-manager';
+import { SecondaryCursorManager } from './core/secondary-cursor-manager';
+import { TrailManager } from './core/trail-manager';
+import { SelectionOverlayManager } from './core/selection-overlay-manager';
+import { LocatorManager } from './core/locator-manager';
+import { CrosshairManager } from './core/crosshair-manager';
+import { LineHighlightManager } from './core/line-highlight-manager';
+import { SmoothScrollManager } from './core/smooth-scroll-manager';
 import { EditorStateManager } from './core/editor-state-manager';
 import { EventManager } from './core/event-manager';
 import { NativeCursorHider } from './core/native-cursor-hider';
 import { getDefaultLineHeight } from './utils/editor-utils';
 import { isElementConnected } from './utils/dom-utils';
-import { hasOriginalDispatch } from './utils/type-guards';
-
-/**
- * Create a ViewPlugin that listens for cursor position changes
- * This provides immediate detection of cursor movement during typing
- */
-function createCursorUpdatePlugin(onUpdate: (update: ViewUpdate) => void) {
-  return ViewPlugin.fromClass(class {
-    update(update: ViewUpdate) {
-      // Trigger callback when document changes or selection changes
-      if (update.docChanged || update.selectionSet || update.viewportChanged) {
-        onUpdate(update);
-      }
-    }
-  });
-}
 
 /**
  * CursorRenderer - Manages custom cursor rendering in CodeMirror editors
@@ -37,9 +36,13 @@ export class CursorRenderer {
   private plugin: SmoothCursorPlugin;
   private animationEngine: AnimationEngine;
   private editorView: EditorView | null = null;
+  private ownerWindow: Window = window; // Window of the attached editor (main or popout)
+  private isUnfocused = false; // Showing the hollow unfocused cursor
+  private lastAttachedEditorView: EditorView | null = null; // Re-attaching the same editor does not ping
   private isAttached = false;
   private updateScheduled = false;
   private lastCursorPos = -1;
+  private lastSecondaryHeads = '';
   private modeUnsubscribe: (() => void) | null = null;
   private isDestroyed = false;
   private isScrolling = false;
@@ -52,21 +55,41 @@ export class CursorRenderer {
   private characterMeasurementService: CharacterMeasurementService;
   private domChangeDetector: DOMChangeDetectorService;
   private cursorElementManager: CursorElementManager;
+  private secondaryCursorManager: SecondaryCursorManager;
+  private trailManager: TrailManager;
+  private selectionGeometryService: SelectionGeometryService;
+  private selectionOverlayManager: SelectionOverlayManager;
+  private locatorManager: LocatorManager;
+  private crosshairManager: CrosshairManager;
+  private lineHighlightManager: LineHighlightManager;
+  private smoothScrollManager: SmoothScrollManager;
   private editorStateManager: EditorStateManager;
   private eventManager: EventManager;
   private nativeCursorHider: NativeCursorHider;
   
   // Transaction-based cursor tracking
-  private cursorUpdatePlugin: ReturnType<typeof createCursorUpdatePlugin> | null = null;
   private lastDocChangeTime = 0;
   private isTyping = false;
   private typingTimeout: number | null = null;
   private lastUpdateWasTyping = false;
   
+  // IME composition tracking
+  private isComposing = false;
+  private compositionFrom = 0; // Start of the preedit text
+  private compositionBaseLength = 0; // Document length without the preedit text
+  
   // Movement debounce for breathing animation
   private movementResumeTimeout: number | null = null;
   private movementDebounceDelay = 300; // Delay before resuming animation after movement stops (ms)
   private isCurrentlyMoving = false; // Track if cursor is currently moving
+  
+  // Color of the current mode (per-mode colors or the global cursor color)
+  private currentColor: CursorModeColor;
+  
+  // Public API - style overrides by context (later entries win) and movement subscribers
+  private styleOverrides: Map<string, CursorStyleOverride> = new Map();
+  private cursorMoveCallbacks: Set<(event: CursorMoveEvent) => void> = new Set();
+  private lastMoveKey = '';
 
   constructor(plugin: SmoothCursorPlugin, animationEngine: AnimationEngine) {
     this.plugin = plugin;
@@ -77,9 +100,18 @@ export class CursorRenderer {
     this.characterMeasurementService = new CharacterMeasurementService();
     this.domChangeDetector = new DOMChangeDetectorService();
     this.cursorElementManager = new CursorElementManager(plugin.settings);
+    this.secondaryCursorManager = new SecondaryCursorManager(plugin);
+    this.trailManager = new TrailManager(plugin.settings);
+    this.selectionGeometryService = new SelectionGeometryService();
+    this.selectionOverlayManager = new SelectionOverlayManager(plugin);
+    this.locatorManager = new LocatorManager();
+    this.crosshairManager = new CrosshairManager();
+    this.lineHighlightManager = new LineHighlightManager();
+    this.smoothScrollManager = new SmoothScrollManager(plugin);
     this.editorStateManager = new EditorStateManager();
     this.eventManager = new EventManager();
     this.nativeCursorHider = new NativeCursorHider();
+    this.currentColor = getCursorColorForMode(plugin.settings, plugin.getVimMode());
     
     // Set up animation frame callback
     this.animationEngine.setOnFrame((pos) => this.applyCursorPosition(pos));
@@ -87,6 +119,16 @@ export class CursorRenderer {
     // Set up movement callback for blink pause
     this.animationEngine.setOnMovement((isMoving) => this.handleMovementState(isMoving));
     
+    // Ping the cursor's destination after long jumps (gg, G, search, outline clicks)
+    this.animationEngine.setOnJump((target) => {
+      const shape = (this.cursorElementManager.getElement()?.dataset.shape || 'block') as CursorShape;
+      this.locatorManager.ping(this.getDisplayedRect(target, shape), this.currentColor.color, this.plugin.settings.locatorStyle);
+    });
+    
+    // Smooth page scrolling moves the text every frame - keep the cursor on it
+    this.smoothScrollManager.setOnFrame(() => this.updatePositionImmediate());
+    this.smoothScrollManager.setOnEnd(() => this.scheduleUpdate());
+    
     // Listen for vim mode changes
     this.modeUnsubscribe = this.plugin.vimState?.onModeChange((mode) => {
       this.updateCursorShape(mode);
@@ -105,18 +147,30 @@ export class CursorRenderer {
     this.detach();
     this.editorView = editorView;
     
+    // Render in the editor's own document/window so popout windows work
+    const doc = editorView.dom.ownerDocument;
+    this.ownerWindow = doc.defaultView ?? window;
+    this.animationEngine.setClock(createWindowClock(this.ownerWindow));
+    
     // Attach services and managers
     this.coordinateService.attach(editorView);
     this.characterMeasurementService.attach(editorView);
     this.editorStateManager.attach(editorView);
     this.nativeCursorHider.attach(editorView);
+    this.selectionGeometryService.attach(editorView);
     
     // Create cursor elements
     const editorId = CursorElementManager.generateEditorId();
-    this.cursorElementManager.create(editorId);
+    this.cursorElementManager.create(editorId, doc);
+    this.secondaryCursorManager.setEditorContext(editorId, doc);
+    this.trailManager.create(doc);
+    this.selectionOverlayManager.create(editorView.dom);
+    this.locatorManager.create(doc);
+    this.crosshairManager.create(doc);
+    this.lineHighlightManager.create(editorView.dom, editorView.scrollDOM);
     
-    // Setup transaction listener for immediate cursor tracking during typing
-    this.setupTransactionListener();
+    // Smooth scrolling for vim page motions (registered before the scroll listener)
+    this.smoothScrollManager.attach(editorView);
     
     // Setup scroll event listener for immediate position updates during scroll
     this.setupScrollListener();
@@ -127,6 +181,9 @@ export class CursorRenderer {
     // Setup mouse and keyboard event listeners for cursor position changes
     this.setupMouseKeyboardListeners();
     
+    // Setup IME composition listeners (CJK input)
+    this.setupCompositionListener();
+    
     // Setup DOM change detector for Live Preview mode compatibility
     this.setupDOMChangeDetector();
     
@@ -150,69 +207,36 @@ export class CursorRenderer {
       // Also schedule a normal update for smooth animation after immediate positioning
       this.scheduleUpdate();
     }
-  }
-
-  /**
-   * Setup CodeMirror transaction listener by intercepting EditorView.dispatch
-   * This is a workaround since we can't add ViewPlugin to extensions in Obsidian
-   * WARNING: This approach may conflict with other plugins that also intercept dispatch
-   */
-  private setupTransactionListener() {
-    if (!this.editorView) return;
-
-    // Intercept EditorView.dispatch to listen to all transactions
-    // Store original dispatch for cleanup
-    // WARNING: Using internal property __originalDispatch which may conflict with other plugins
-    if (!hasOriginalDispatch(this.editorView)) {
-      this.editorView.__originalDispatch = this.editorView.dispatch.bind(this.editorView);
-    }
     
-    // At this point, __originalDispatch must be defined
-    if (!hasOriginalDispatch(this.editorView)) {
-      this.plugin.debug('Failed to store original dispatch');
-      return;
+    // Ping the cursor when switching to another editor
+    const isNewEditor = this.lastAttachedEditorView !== editorView;
+    this.lastAttachedEditorView = editorView;
+    if (isNewEditor && this.plugin.settings.autoLocatorOnAttach) {
+      this.ownerWindow.requestAnimationFrame(() => {
+        if (this.editorView === editorView) {
+          this.locateCursor();
+        }
+      });
     }
-    
-    const originalDispatch = this.editorView.__originalDispatch;
-    const self = this;
-    
-    this.editorView.dispatch = function(tr: any) {
-      // Call original dispatch first
-      const result = originalDispatch(tr);
-      
-      // Then check for cursor position changes (use requestAnimationFrame to avoid blocking)
-      if (self.isAttached && self.editorView) {
-        requestAnimationFrame(() => {
-          if (self.isAttached && self.editorView) {
-            self.handleEditorUpdate(tr);
-          }
-        });
-      }
-      
-      return result;
-    };
-
-    // Also try to use ViewPlugin if possible (may not work without being in extensions)
-    this.cursorUpdatePlugin = createCursorUpdatePlugin((update: ViewUpdate) => {
-      if (!this.isAttached || !this.editorView) return;
-      this.handleEditorUpdateFromView(update);
-    });
-
-    this.plugin.debug('Transaction listener created (dispatch interception)');
   }
 
   /**
    * Unified handler for editor updates from different sources
    * @param docChanged - Whether the document changed (typing)
    * @param cursorPos - Current cursor position
+   * @param secondaryHeads - Serialized heads of the non-main selection ranges
    */
-  private handleEditorUpdateInternal(docChanged: boolean, cursorPos: number) {
+  private handleEditorUpdateInternal(docChanged: boolean, cursorPos: number, secondaryHeads: string) {
     if (!this.editorView) return;
     
     const now = performance.now();
     
+    // Preedit changes are not typing - the typing lerp applies once the text is committed
+    const isTypingChange = docChanged && !this.isComposing;
+    const headPos = this.isComposing ? this.getMainCursorHead() : cursorPos;
+    
     // Track if this is a typing action (document changed)
-    if (docChanged) {
+    if (isTypingChange) {
       this.lastDocChangeTime = now;
       this.isTyping = true;
       this.lastUpdateWasTyping = true;
@@ -230,9 +254,10 @@ export class CursorRenderer {
       this.lastUpdateWasTyping = false;
     }
     
-    // Check if cursor position changed
-    if (cursorPos !== this.lastCursorPos) {
-      this.lastCursorPos = cursorPos;
+    // Check if cursor position changed (main or any secondary range)
+    if (headPos !== this.lastCursorPos || secondaryHeads !== this.lastSecondaryHeads) {
+      this.lastCursorPos = headPos;
+      this.lastSecondaryHeads = secondaryHeads;
       
       // Clear coordinate cache on position change
       this.coordinateService.clearCache();
@@ -243,30 +268,21 @@ export class CursorRenderer {
   }
 
   /**
-   * Handle editor update from intercepted dispatch
+   * Handle an update from the registered cursor update extension
+   * Every editor reports here - updates from other editors are ignored
    */
-  private handleEditorUpdate(tr: any) {
-    if (!this.editorView) return;
-    
-    const state = this.editorView.state;
-    const docChanged = tr.docChanged || false;
-    const sel = state.selection.main;
-    const cursorPos = sel.head;
-    
-    this.handleEditorUpdateInternal(docChanged, cursorPos);
-  }
+  handleViewUpdate(update: ViewUpdate): void {
+    if (!this.isAttached || !this.editorView || update.view !== this.editorView) return;
 
-  /**
-   * Handle editor update from ViewPlugin (if it works)
-   */
-  private handleEditorUpdateFromView(update: ViewUpdate) {
-    if (!this.isAttached || !this.editorView) return;
-    
     const docChanged = update.docChanged;
-    const sel = update.state.selection.main;
-    const cursorPos = sel.head;
-    
-    this.handleEditorUpdateInternal(docChanged, cursorPos);
+
+    // Layout cannot be read during a CodeMirror update - handle it on the next frame
+    this.ownerWindow.requestAnimationFrame(() => {
+      if (!this.isAttached || !this.editorView) return;
+
+      const selection = this.editorView.state.selection;
+      this.handleEditorUpdateInternal(docChanged, selection.main.head, this.getSecondaryHeads(selection));
+    });
   }
 
   /**
@@ -277,18 +293,93 @@ export class CursorRenderer {
     this.characterMeasurementService.clearCache();
   }
 
+  /**
+   * Serialize heads of the non-main selection ranges for change detection
+   */
+  private getSecondaryHeads(selection: EditorSelection): string {
+    if (selection.ranges.length <= 1) return '';
+    return selection.ranges
+      .filter((_, i) => i !== selection.mainIndex)
+      .map((range) => range.head)
+      .join(',');
+  }
+
+  /**
+   * Hide primary and secondary cursors
+   */
+  private hideCursors(): void {
+    this.cursorElementManager.hide();
+    this.secondaryCursorManager.hideAll();
+    this.trailManager.hide();
+    this.selectionOverlayManager.hide();
+    this.crosshairManager.hide();
+    this.lineHighlightManager.hide();
+  }
+
+  /**
+   * Update the animated selection overlay (visual modes only)
+   * @param immediate - Skip animation (scrolling, first show)
+   */
+  private updateSelectionOverlay(immediate: boolean): void {
+    const kind = getSelectionKindForMode(this.plugin.getVimMode());
+    if (!this.plugin.settings.enableSelectionOverlay || !kind || this.isUnfocused) {
+      this.selectionOverlayManager.hide();
+      return;
+    }
+    this.selectionOverlayManager.update(this.selectionGeometryService.getSelectionRects(kind), immediate);
+  }
+
   /**
    * Check if editor is focused, hide cursor if not
    * @returns true if focused, false otherwise
    */
   private checkFocusAndHideIfNeeded(): boolean {
     if (!this.editorStateManager.isFocused()) {
-      this.cursorElementManager.hide();
+      // Keep rendering a hollow block at the last position instead of hiding
+      if (this.plugin.settings.enableUnfocusedHollowCursor) {
+        this.setUnfocused(true);
+        return true;
+      }
+      this.hideCursors();
       return false;
     }
+    this.setUnfocused(false);
     return true;
   }
 
+  /**
+   * Switch between the focused shape and the unfocused hollow block
+   * The shape change animates through updateCursorShape
+   */
+  private setUnfocused(unfocused: boolean): void {
+    if (this.isUnfocused === unfocused) return;
+    this.isUnfocused = unfocused;
+    this.updateCursorShape(this.plugin.getVimMode());
+  }
+
+  /**
+   * Get the document position the main cursor is drawn at
+   * During IME composition this is the end of the preedit text (track)
+   * or the position where composition started (freeze)
+   */
+  private getMainCursorHead(): number {
+    if (!this.editorView) return 0;
+
+    const state = this.editorView.state;
+    if (!this.isComposing) {
+      return state.selection.main.head;
+    }
+
+    if (this.plugin.settings.imeCursorMode === 'freeze') {
+      return Math.min(this.compositionFrom, state.doc.length);
+    }
+
+    // Preedit text length = growth of the document since composition started
+    const preeditEnd = this.compositionFrom + Math.max(0, state.doc.length - this.compositionBaseLength);
+    const line = state.doc.lineAt(Math.min(this.compositionFrom, state.doc.length));
+    return Math.min(preeditEnd, line.to);
+  }
+
   /**
    * Calculate cursor position from current editor state
    * @returns CursorPosition or null if invalid
@@ -296,8 +387,7 @@ export class CursorRenderer {
   private calculateCursorPosition(): CursorPosition | null {
     if (!this.editorView) return null;
 
-    const sel = this.editorView.state.selection.main;
-    const pos = sel.head;
+    const pos = this.getMainCursorHead();
     const coords = this.coordinateService.getCursorCoordsCached(pos);
     
     if (!coords || isNaN(coords.left) || isNaN(coords.top) || !isFinite(coords.left) || !isFinite(coords.top)) {
@@ -315,6 +405,59 @@ export class CursorRenderer {
     };
   }
 
+  /**
+   * Render the character at the main cursor inside the block cursor
+   * @param shape - Current cursor shape (only block renders the character)
+   * @param lineHeight - Line height used to vertically align the glyph
+   */
+  private updateCursorCharacter(shape: CursorShape, lineHeight: number): void {
+    if (!this.editorView || !this.plugin.settings.enableCursorCharacter || shape !== 'block') {
+      this.cursorElementManager.setCharacter(null);
+      return;
+    }
+
+    const pos = this.getMainCursorHead();
+    const character = this.characterMeasurementService.getCharacterAt(pos);
+    this.cursorElementManager.setCharacter(character, this.plugin.settings.cursorTextColor, lineHeight);
+  }
+
+  /**
+   * Update cursors for the non-main selection ranges
+   * Uses coordsAtPos directly (no fallbacks) so off-screen ranges are hidden
+   * instead of being drawn at a stale location
+   * @param shape - Current cursor shape
+   * @param isTyping - Whether this update comes from typing
+   * @param immediate - Skip animation (scrolling, first show)
+   */
+  private updateSecondaryCursors(shape: CursorShape, isTyping: boolean, immediate: boolean): void {
+    if (!this.editorView) return;
+
+    const selection = this.editorView.state.selection;
+    const lineHeight = getDefaultLineHeight(this.editorView);
+    const targets: Array<CursorPosition | null> = [];
+
+    for (let i = 0; i < selection.ranges.length; i++) {
+      if (i === selection.mainIndex) continue;
+
+      const pos = selection.ranges[i].head;
+      const coords = this.editorView.coordsAtPos(pos, 1) ?? this.editorView.coordsAtPos(pos, -1);
+      if (!coords || !isFinite(coords.left) || !isFinite(coords.top)) {
+        targets.push(null);
+        continue;
+      }
+
+      const basePosition: CursorPosition = {
+        x: coords.left,
+        y: coords.top,
+        width: this.characterMeasurementService.measureCharacterWidthCached(pos),
+        height: lineHeight,
+      };
+      targets.push(this.calculateTargetPosition(basePosition, shape));
+    }
+
+    this.secondaryCursorManager.update(targets, lineHeight, isTyping, immediate);
+  }
+
   /**
    * Calculate target cursor position with shape-adjusted dimensions
    * @param basePosition - Base cursor position
@@ -364,7 +507,7 @@ export class CursorRenderer {
 
     const basePosition = this.calculateCursorPosition();
     if (!basePosition) {
-      this.cursorElementManager.hide();
+      this.hideCursors();
       return;
     }
 
@@ -374,6 +517,7 @@ export class CursorRenderer {
       // Get current shape to calculate target dimensions
       const shape = (cursorEl.dataset.shape || 'block') as CursorShape;
       const targetPosition = this.calculateTargetPosition(basePosition, shape);
+      this.updateCursorCharacter(shape, basePosition.height);
       
       if (this.isScrolling) {
         // Use immediate positioning during scroll
@@ -387,6 +531,8 @@ export class CursorRenderer {
           yOffset
         );
         this.animationEngine.setImmediate(targetPosition);
+        this.updateSecondaryCursors(shape, isTyping, true);
+        this.updateSelectionOverlay(true);
       } else {
         const currentLeft = parseFloat(cursorEl.style.left || '0');
         const currentTop = parseFloat(cursorEl.style.top || '0');
@@ -397,14 +543,30 @@ export class CursorRenderer {
           this.animationEngine.setImmediate(targetPosition);
           this.applyCursorPosition(targetPosition);
         } else {
+          // Long jumps leave a trail from the currently displayed cursor rectangle
+          const currentPos = this.animationEngine.getCurrentPosition();
+          const startTrail = this.trailManager.shouldTrigger(currentPos, targetPosition);
+          
           // Pass typing context to animation engine for adaptive lerp
           // Animation engine will smoothly interpolate dimensions
           this.animationEngine.animateTo(targetPosition, isTyping);
+
+          // Started after the cursor animation, so each cursor frame moves the head before the trail follows
+          if (startTrail) {
+            this.trailManager.start(this.getDisplayedRect(currentPos, shape), this.currentColor.color);
+            if (!this.animationEngine.isRunning()) {
+              // Animation off - the cursor is already at the target
+              this.trailManager.update(this.getDisplayedRect(targetPosition, shape));
+            }
+          }
         }
+        this.updateSecondaryCursors(shape, isTyping, wasHidden);
+        this.updateSelectionOverlay(wasHidden);
+        this.notifyCursorMove(this.getDisplayedRect(targetPosition, shape));
       }
       
     } catch (e) {
-      this.cursorElementManager.hide();
+      this.hideCursors();
     }
   }
 
@@ -415,6 +577,9 @@ export class CursorRenderer {
     if (!this.editorView) return;
     
     const scrollHandler = () => {
+      // Smooth scrolling syncs the cursor itself on every frame
+      if (this.smoothScrollManager.isAnimating()) return;
+      
       this.isScrolling = true;
       
       // Clear previous timeout
@@ -462,7 +627,7 @@ export class CursorRenderer {
       const target = e.target as HTMLElement;
       if (target.closest('.cm-editor')) {
         // Small delay to allow selection to update
-        requestAnimationFrame(() => {
+        this.ownerWindow.requestAnimationFrame(() => {
           if (this.editorView && this.isAttached) {
             const sel = this.editorView.state.selection.main;
             const cursorPos = sel.head;
@@ -490,7 +655,7 @@ export class CursorRenderer {
           (e.key === 'Home' || e.key === 'End') ||
           (e.ctrlKey && (e.key === 'ArrowLeft' || e.key === 'ArrowRight'))) {
         // Small delay to allow selection to update
-        requestAnimationFrame(() => {
+        this.ownerWindow.requestAnimationFrame(() => {
           if (this.editorView && this.isAttached) {
             const sel = this.editorView.state.selection.main;
             const cursorPos = sel.head;
@@ -529,6 +694,7 @@ export class CursorRenderer {
       
       // Reset last cursor position to force position update
       this.lastCursorPos = -1;
+      this.lastSecondaryHeads = '';
       
       // Immediately update cursor position to reflect new DOM structure
       // Use immediate update since DOM has already changed
@@ -589,10 +755,14 @@ export class CursorRenderer {
             const isStillFocused = this.editorStateManager.isFocused(true);
             
             if (!isStillFocused) {
-              // Hide custom cursor but keep smooth-cursor-active class
+              // Hide custom cursor (or switch to the hollow block) but keep smooth-cursor-active class
               // This ensures native cursor stays hidden when focus returns
-              this.cursorElementManager.hide();
-              this.plugin.debug('Editor lost focus, cursor hidden');
+              if (this.checkFocusAndHideIfNeeded()) {
+                this.scheduleUpdate();
+                this.plugin.debug('Editor lost focus, showing hollow cursor');
+              } else {
+                this.plugin.debug('Editor lost focus, cursor hidden');
+              }
             }
           }
         }, 10);
@@ -617,9 +787,49 @@ export class CursorRenderer {
     };
 
     // Use capture phase to catch events early
-    this.eventManager.addEventListener(document, 'mousedown', mousedownHandler, true);
-    this.eventManager.addEventListener(document, 'focusin', focusHandler, true);
-    this.eventManager.addEventListener(document, 'focusout', blurHandler, true);
+    // Listen on the editor's own document - popout windows dispatch focus events there
+    const doc = this.editorView.dom.ownerDocument;
+    this.eventManager.addEventListener(doc, 'mousedown', mousedownHandler, true);
+    this.eventManager.addEventListener(doc, 'focusin', focusHandler, true);
+    this.eventManager.addEventListener(doc, 'focusout', blurHandler, true);
+  }
+
+  /**
+   * Setup IME composition listeners
+   * While composing, the cursor follows the preedit text (or stays frozen) without the typing lerp;
+   * the committed text is animated once as a typing movement
+   */
+  private setupCompositionListener() {
+    if (!this.editorView) return;
+
+    const compositionStartHandler = () => {
+      if (!this.editorView) return;
+
+      const state = this.editorView.state;
+      const sel = state.selection.main;
+      // A non-empty selection is replaced by the preedit text
+      this.compositionFrom = sel.from;
+      this.compositionBaseLength = state.doc.length - (sel.to - sel.from);
+      this.isComposing = true;
+      this.plugin.debug('IME composition started');
+    };
+
+    const compositionEndHandler = () => {
+      if (!this.isComposing) return;
+      this.isComposing = false;
+
+      // CodeMirror applies the committed text after compositionend - wait a frame
+      this.ownerWindow.requestAnimationFrame(() => {
+        if (!this.editorView || !this.isAttached) return;
+        this.lastCursorPos = -1;
+        this.clearAllCaches();
+        this.updateCursorPositionWithContext(true);
+      });
+      this.plugin.debug('IME composition ended');
+    };
+
+    this.eventManager.addEventListener(this.editorView.contentDOM, 'compositionstart', compositionStartHandler);
+    this.eventManager.addEventListener(this.editorView.contentDOM, 'compositionend', compositionEndHandler);
   }
 
   /**
@@ -638,7 +848,7 @@ export class CursorRenderer {
 
     const basePosition = this.calculateCursorPosition();
     if (!basePosition) {
-      this.cursorElementManager.hide();
+      this.hideCursors();
       return;
     }
 
@@ -648,6 +858,7 @@ export class CursorRenderer {
       const shape = (cursorEl.dataset.shape || 'block') as CursorShape;
       const targetPosition = this.calculateTargetPosition(basePosition, shape);
       const lineHeight = getDefaultLineHeight(this.editorView);
+      this.updateCursorCharacter(shape, basePosition.height);
       const yOffset = shape === 'underline' ? lineHeight - targetPosition.height : 0;
       
       this.cursorElementManager.updatePosition(
@@ -660,8 +871,10 @@ export class CursorRenderer {
       );
       
       this.animationEngine.setImmediate(targetPosition);
+      this.updateSecondaryCursors(shape, false, true);
+      this.updateSelectionOverlay(true);
     } catch (e) {
-      this.cursorElementManager.hide();
+      this.hideCursors();
     }
   }
 
@@ -669,13 +882,6 @@ export class CursorRenderer {
    * Detach from current editor
    */
   detach() {
-    // Restore original dispatch if we intercepted it
-    if (this.editorView && hasOriginalDispatch(this.editorView)) {
-      this.editorView.dispatch = this.editorView.__originalDispatch;
-      // Use type assertion for delete since we know it exists
-      delete (this.editorView as { __originalDispatch?: (tr: any) => void }).__originalDispatch;
-    }
-    
     // Remove all event listeners
     this.eventManager.removeAll();
     
@@ -701,6 +907,13 @@ export class CursorRenderer {
     this.isCurrentlyMoving = false;
     
     this.cursorElementManager.hide();
+    this.secondaryCursorManager.clear();
+    this.trailManager.remove();
+    this.selectionOverlayManager.remove();
+    this.locatorManager.remove();
+    this.crosshairManager.remove();
+    this.lineHighlightManager.remove();
+    this.smoothScrollManager.detach();
     
     // Detach services and managers
     this.coordinateService.detach();
@@ -708,14 +921,21 @@ export class CursorRenderer {
     this.domChangeDetector.detach();
     this.editorStateManager.detach();
     this.nativeCursorHider.detach();
+    this.selectionGeometryService.detach();
     
     this.editorView = null;
+    // A closed popout window never runs its pending frames - fall back to the main window
+    this.ownerWindow = window;
+    this.isUnfocused = false;
+    this.isComposing = false;
+    this.updateScheduled = false;
     this.isAttached = false;
     this.lastCursorPos = -1;
+    this.lastSecondaryHeads = '';
+    this.lastMoveKey = '';
     this.isScrolling = false;
     this.isTyping = false;
     this.lastUpdateWasTyping = false;
-    this.cursorUpdatePlugin = null;
   }
 
   /**
@@ -735,6 +955,9 @@ export class CursorRenderer {
     }
     this.detach();
     this.cursorElementManager.remove();
+    this.lastAttachedEditorView = null;
+    this.styleOverrides.clear();
+    this.cursorMoveCallbacks.clear();
   }
 
   /**
@@ -742,7 +965,9 @@ export class CursorRenderer {
    */
   forceUpdate() {
     this.lastCursorPos = -1;
+    this.lastSecondaryHeads = '';
     this.clearAllCaches(); // Clear cache on force update
+    this.selectionOverlayManager.updateStyle();
     // Also update shape/animation to apply any setting changes
     const cursorEl = this.cursorElementManager.getElement();
     if (cursorEl && this.editorView) {
@@ -756,7 +981,7 @@ export class CursorRenderer {
     if (this.updateScheduled || this.isDestroyed) return;
     this.updateScheduled = true;
     
-    requestAnimationFrame(() => {
+    this.ownerWindow.requestAnimationFrame(() => {
       this.updateScheduled = false;
       if (!this.isDestroyed) {
         this.updateCursorPosition();
@@ -777,7 +1002,8 @@ export class CursorRenderer {
     const cursorEl = this.cursorElementManager.getElement();
     if (!cursorEl) return;
 
-    const shape = this.plugin.settings.cursorShapes[mode];
+    const override = this.getStyleOverride();
+    const shape = this.isUnfocused ? 'hollow' : override.shape ?? getCursorShapeForMode(this.plugin.settings, mode);
     const oldShape = (cursorEl.dataset.shape || 'block') as CursorShape;
     
     // If shape is changing, ensure smooth transition
@@ -819,6 +1045,7 @@ export class CursorRenderer {
       
       // Update shape
       this.cursorElementManager.updateShape(shape);
+      this.secondaryCursorManager.setShape(shape);
       
       // Trigger update which will calculate new dimensions based on new shape
       // The animation engine will smoothly interpolate from current displayed dimensions to new ones
@@ -827,12 +1054,19 @@ export class CursorRenderer {
     } else {
       // Shape not changing, just update shape
       this.cursorElementManager.updateShape(shape);
+      this.secondaryCursorManager.setShape(shape);
     }
     
-    // Apply breathing animation if enabled
+    // Apply mode color - background-color transition animates the change
+    const modeColor = getCursorColorForMode(this.plugin.settings, mode, this.ownerWindow.document);
+    this.currentColor = { color: override.color ?? modeColor.color, opacity: override.opacity ?? modeColor.opacity };
+    this.cursorElementManager.setColor(this.currentColor.color, this.currentColor.opacity);
+    this.secondaryCursorManager.setColor(this.currentColor);
+    
+    // Apply breathing animation if enabled (the unfocused cursor and reduced motion stay still)
     this.cursorElementManager.setBreathing(
-      this.plugin.settings.enableBreathingAnimation,
-      this.plugin.settings.cursorOpacity
+      this.plugin.settings.enableBreathingAnimation && !this.isUnfocused && !shouldReduceMotion(this.plugin.settings),
+      this.currentColor.opacity
     );
     
     // Ensure moving state is properly set
@@ -842,6 +1076,11 @@ export class CursorRenderer {
         cursorEl.classList.remove('moving');
       }
     }
+    
+    // Entering or leaving a visual mode shows/hides the selection overlay on the next frame
+    if (this.plugin.settings.enableSelectionOverlay) {
+      this.scheduleUpdate();
+    }
   }
 
   /**
@@ -856,11 +1095,7 @@ export class CursorRenderer {
     const shape = (cursorEl.dataset.shape || 'block') as CursorShape;
     
     // Calculate yOffset based on shape (for underline cursor)
-    let yOffset = 0;
-    if (shape === 'underline' && this.editorView) {
-      const originalLineHeight = getDefaultLineHeight(this.editorView);
-      yOffset = originalLineHeight - pos.height; // pos.height is 2 for underline
-    }
+    const yOffset = this.getShapeYOffset(pos, shape);
 
     this.cursorElementManager.updatePosition(
       pos.x,
@@ -870,6 +1105,190 @@ export class CursorRenderer {
       this.plugin.settings.useTransformAnimation,
       yOffset
     );
+    
+    // Leading edge of the trail follows the displayed cursor
+    const displayedRect = this.getDisplayedRect(pos, shape);
+    this.trailManager.update(displayedRect);
+    
+    if (this.plugin.settings.enableCrosshair && this.editorView) {
+      this.crosshairManager.update(
+        displayedRect,
+        this.editorView.scrollDOM.getBoundingClientRect(),
+        this.currentColor.color,
+        this.plugin.settings.crosshairOpacity
+      );
+    } else {
+      this.crosshairManager.hide();
+    }
+    
+    this.updateLineHighlight(pos, shape);
+  }
+
+  /**
+   * Slide the current-line highlight with the animated cursor
+   * Uses the cursor's visual line, so soft-wrapped lines highlight only the wrapped row.
+   */
+  private updateLineHighlight(pos: CursorPosition, shape: CursorShape): void {
+    const settings = this.plugin.settings;
+    if (!settings.enableLineHighlight || !this.editorView) {
+      this.lineHighlightManager.hide();
+      return;
+    }
+
+    const view = this.editorView;
+    const scrollRect = view.scrollDOM.getBoundingClientRect();
+    const guttersEl = view.dom.querySelector<HTMLElement>('.cm-gutters');
+    const gutterRect = guttersEl?.getBoundingClientRect() ?? null;
+
+    let left: number;
+    let right: number;
+    if (settings.lineHighlightWidth === 'text') {
+      const contentRect = view.contentDOM.getBoundingClientRect();
+      const style = view.contentDOM.ownerDocument.defaultView?.getComputedStyle(view.contentDOM);
+      left = contentRect.left + (parseFloat(style?.paddingLeft ?? '') || 0);
+      right = contentRect.right - (parseFloat(style?.paddingRight ?? '') || 0);
+    } else {
+      left = gutterRect && gutterRect.width > 0 ? gutterRect.right : scrollRect.left;
+      right = scrollRect.left + view.scrollDOM.clientWidth;
+    }
+
+    // Underline cursors are only 2px tall - the band still covers the whole line
+    const height = shape === 'underline' ? getDefaultLineHeight(view) : pos.height;
+
+    this.lineHighlightManager.update(
+      pos.y,
+      height,
+      { left, right },
+      settings.enableGutterHighlight ? guttersEl : null,
+      settings.lineHighlightColor,
+      settings.lineHighlightOpacity
+    );
+  }
+
+  /**
+   * Pulse a locator ring around the cursor so it is easy to find
+   */
+  locateCursor(style: LocatorStyle = this.plugin.settings.locatorStyle): void {
+    if (!this.editorView || !this.isAttached) return;
+
+    const cursorEl = this.cursorElementManager.getElement();
+    const shape = (cursorEl?.dataset.shape || 'block') as CursorShape;
+    const isVisible = !!cursorEl && cursorEl.style.display !== 'none';
+
+    // Use the drawn cursor when visible, otherwise where it belongs
+    let rect: CursorPosition | null = null;
+    if (isVisible) {
+      rect = this.getDisplayedRect(this.animationEngine.getCurrentPosition(), shape);
+    } else {
+      const basePosition = this.calculateCursorPosition();
+      rect = basePosition ? this.calculateTargetPosition(basePosition, shape) : null;
+    }
+
+    if (rect) {
+      this.locatorManager.ping(rect, this.currentColor.color, style);
+    }
+  }
+
+  /**
+   * Briefly flash the drawn cursor
+   */
+  flashCursor(): void {
+    const cursorEl = this.cursorElementManager.getElement();
+    if (!this.isAttached || !cursorEl || cursorEl.style.display === 'none') return;
+    this.cursorElementManager.flash();
+  }
+
+  /**
+   * Get the rectangle of the drawn (animated) cursor
+   * @returns Viewport rectangle, or null when no cursor is shown
+   */
+  getCursorRect(): CursorPosition | null {
+    const cursorEl = this.cursorElementManager.getElement();
+    if (!this.isAttached || !cursorEl || cursorEl.style.display === 'none') return null;
+
+    const shape = (cursorEl.dataset.shape || 'block') as CursorShape;
+    return this.getDisplayedRect(this.animationEngine.getCurrentPosition(), shape);
+  }
+
+  /**
+   * Register callback for cursor movement (new destinations, not animation frames)
+   */
+  onCursorMove(callback: (event: CursorMoveEvent) => void): () => void {
+    this.cursorMoveCallbacks.add(callback);
+    return () => this.cursorMoveCallbacks.delete(callback);
+  }
+
+  /**
+   * Set or clear the style override of a context
+   * @param override - Style to apply, or null to remove the context's override
+   */
+  setStyleOverride(context: string, override: CursorStyleOverride | null): void {
+    // Re-insert so the most recently set context wins
+    this.styleOverrides.delete(context);
+    if (override) {
+      this.styleOverrides.set(context, override);
+    }
+    if (this.isAttached) {
+      this.updateCursorShape(this.plugin.getVimMode());
+    }
+  }
+
+  /**
+   * Remove the style override of a context
+   * @param override - Only remove this exact override - a newer one set for the context stays
+   */
+  clearStyleOverride(context: string, override?: CursorStyleOverride): void {
+    const current = this.styleOverrides.get(context);
+    if (!current || (override && current !== override)) return;
+    this.setStyleOverride(context, null);
+  }
+
+  /**
+   * Merge style overrides in the order they were set
+   */
+  private getStyleOverride(): CursorStyleOverride {
+    const merged: CursorStyleOverride = {};
+    this.styleOverrides.forEach((override) => Object.assign(merged, override));
+    return merged;
+  }
+
+  /**
+   * Report a new cursor destination to subscribers (skips repeats of the same one)
+   */
+  private notifyCursorMove(rect: CursorPosition) {
+    if (!this.editorView || this.cursorMoveCallbacks.size === 0) return;
+
+    const head = this.editorView.state.selection.main.head;
+    const moveKey = `${head}|${Math.round(rect.x)}|${Math.round(rect.y)}`;
+    if (moveKey === this.lastMoveKey) return;
+    this.lastMoveKey = moveKey;
+
+    const event: CursorMoveEvent = { head, rect };
+    this.cursorMoveCallbacks.forEach((cb) => cb(event));
+  }
+
+  /**
+   * Get vertical offset of the cursor element for a shape
+   * (underline cursor sits at the bottom of the line)
+   */
+  private getShapeYOffset(pos: CursorPosition, shape: CursorShape): number {
+    if (shape === 'underline' && this.editorView) {
+      const originalLineHeight = getDefaultLineHeight(this.editorView);
+      return originalLineHeight - pos.height; // pos.height is 2 for underline
+    }
+    return 0;
+  }
+
+  /**
+   * Get the rectangle the cursor element actually covers on screen
+   */
+  private getDisplayedRect(pos: CursorPosition, shape: CursorShape): CursorPosition {
+    return {
+      x: pos.x,
+      y: pos.y + this.getShapeYOffset(pos, shape),
+      width: pos.width,
+      height: pos.height,
+    };
   }
 
   /**
@@ -883,10 +1302,13 @@ export class CursorRenderer {
       this.movementResumeTimeout = null;
     }
     
+    // The character belongs to the target position - hide it while the block travels
+    this.cursorElementManager.setCharacterVisible(!isMoving);
+    
     if (isMoving) {
       // Immediately pause animation and keep cursor fully visible
       this.isCurrentlyMoving = true;
-      this.cursorElementManager.setMoving(true, this.plugin.settings.cursorOpacity);
+      this.cursorElementManager.setMoving(true, this.currentColor.opacity);
     } else {
       // Debounce: wait before resuming animation to avoid flickering
       // This prevents animation from restarting too quickly if movement resumes
@@ -894,7 +1316,7 @@ export class CursorRenderer {
         this.movementResumeTimeout = null;
         this.isCurrentlyMoving = false;
         // Resume animation by removing 'moving' class
-        this.cursorElementManager.setMoving(false, this.plugin.settings.cursorOpacity);
+        this.cursorElementManager.setMoving(false, this.currentColor.opacity);
       }, this.movementDebounceDelay);
     }
   }
@@ -0,0 +1,36 @@
+import { Facet, type Extension } from '@codemirror/state';
+import { ViewPlugin, ViewUpdate } from '@codemirror/view';
+
+/**
+ * Callback receiving editor updates that can move the cursor
+ */
+export type CursorUpdateListener = (update: ViewUpdate) => void;
+
+/**
+ * Facet holding the cursor update listeners
+ * Provided through the registered extension, so every editor reports to the plugin
+ * without patching EditorView.dispatch
+ */
+export const cursorUpdateListeners = Facet.define<CursorUpdateListener>();
+
+/**
+ * ViewPlugin that forwards document, selection and viewport changes to the listeners
+ */
+const cursorUpdatePlugin = ViewPlugin.fromClass(class {
+  update(update: ViewUpdate) {
+    // Trigger callback when document changes or selection changes
+    if (update.docChanged || update.selectionSet || update.viewportChanged) {
+      for (const listener of update.state.facet(cursorUpdateListeners)) {
+        listener(update);
+      }
+    }
+  }
+});
+
+/**
+ * Create the editor extension registered with Obsidian's registerEditorExtension
+ * @param onUpdate - Called for every cursor-relevant update in any editor
+ */
+export function createCursorUpdateExtension(onUpdate: CursorUpdateListener): Extension {
+  return [cursorUpdateListeners.of(onUpdate), cursorUpdatePlugin];
+}
@@ -1,4 +1,126 @@
-import type { CursorPosition, CursorShape } from './types';
+import type {
+  BaseVimMode,
+  CursorModeColor,
+  CursorPosition,
+  CursorShape,
+  SelectionKind,
+  SmoothCursorSettings,
+  SubVimMode,
+  VimMode,
+} from './types';
+
+/**
+ * Parent mode of each sub-mode, used when the sub-mode has no configuration of its own
+ */
+export const PARENT_VIM_MODES: Record<SubVimMode, BaseVimMode> = {
+  'visual-line': 'visual',
+  'visual-block': 'visual',
+  'operator-pending': 'normal',
+};
+
+/**
+ * Get the base mode whose configuration a mode falls back to
+ */
+export function getParentMode(mode: VimMode): BaseVimMode {
+  return mode in PARENT_VIM_MODES ? PARENT_VIM_MODES[mode as SubVimMode] : mode as BaseVimMode;
+}
+
+/**
+ * Get cursor shape for a vim mode
+ * @param settings - Plugin settings
+ * @param mode - Current vim mode
+ * @returns Shape of the mode, or of its parent mode when unset
+ */
+export function getCursorShapeForMode(settings: SmoothCursorSettings, mode: VimMode): CursorShape {
+  return settings.cursorShapes[mode] ?? settings.cursorShapes[getParentMode(mode)] ?? 'block';
+}
+
+/**
+ * Media query matching the OS "reduce motion" accessibility setting
+ */
+export const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Check if motion should be reduced (instant movement, no breathing, no trail)
+ * @param settings - Plugin settings
+ * @returns true when reduced motion is honoured and requested by the OS
+ */
+export function shouldReduceMotion(settings: SmoothCursorSettings): boolean {
+  if (!settings.respectReducedMotion || typeof window.matchMedia !== 'function') {
+    return false;
+  }
+  return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/**
+ * Get the selection shape drawn for a vim mode
+ * @returns Selection kind, or null when the mode is not a visual mode
+ */
+export function getSelectionKindForMode(mode: VimMode): SelectionKind | null {
+  switch (mode) {
+    case 'visual':
+      return 'charwise';
+    case 'visual-line':
+      return 'linewise';
+    case 'visual-block':
+      return 'blockwise';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a CSS variable from a document's theme
+ * @param doc - Document to read from (popout windows have their own body)
+ * @param name - Variable name, with or without the leading `--`
+ * @returns Trimmed value, or empty string if the variable is not defined
+ */
+export function readCssVariable(doc: Document, name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed || !doc.body) return '';
+  const variable = trimmed.startsWith('--') ? trimmed : `--${trimmed}`;
+  const view = doc.defaultView ?? window;
+  return view.getComputedStyle(doc.body).getPropertyValue(variable).trim();
+}
+
+/**
+ * Resolve the global cursor color from its configured source
+ * @param settings - Plugin settings
+ * @param doc - Document whose theme is used
+ * @returns Concrete color, falling back to cursorColor when the theme variable is missing
+ */
+export function resolveCursorColor(settings: SmoothCursorSettings, doc: Document = document): string {
+  switch (settings.cursorColorSource) {
+    case 'accent':
+      return readCssVariable(doc, '--interactive-accent') || settings.cursorColor;
+    case 'text-normal':
+      return readCssVariable(doc, '--text-normal') || settings.cursorColor;
+    case 'css-variable':
+      return readCssVariable(doc, settings.cursorColorVariable) || settings.cursorColor;
+    case 'light-dark':
+      return doc.body?.classList.contains('theme-dark') ? settings.cursorColorDark : settings.cursorColorLight;
+    case 'custom':
+    default:
+      return settings.cursorColor;
+  }
+}
+
+/**
+ * Get cursor color and opacity for a vim mode
+ * @param settings - Plugin settings
+ * @param mode - Current vim mode
+ * @param doc - Document used to resolve theme-aware colors
+ * @returns Per-mode color when enabled (falling back to the parent mode), otherwise the global cursor color
+ */
+export function getCursorColorForMode(settings: SmoothCursorSettings, mode: VimMode, doc: Document = document): CursorModeColor {
+  const modeColor = settings.enablePerModeColors
+    ? settings.cursorColors?.[mode] ?? settings.cursorColors?.[getParentMode(mode)]
+    : undefined;
+  if (modeColor) {
+    return modeColor;
+  }
+  return { color: resolveCursorColor(settings, doc), opacity: settings.cursorOpacity };
+}
 
 /**
  * Calculate cursor dimensions based on shape
@@ -24,6 +146,7 @@ export function calculateCursorDimensions(
       height = 2;
       yOffset = pos.height - 2;
       break;
+    case 'hollow':
     case 'block':
     default:
       // Block cursor: full character width
@@ -0,0 +1,51 @@
+import { getLanguage } from 'obsidian';
+import en from './locales/en';
+import zh from './locales/zh';
+
+export type TranslationKey = keyof typeof en;
+
+/**
+ * A complete locale bundle
+ */
+export type Locale = Record<TranslationKey, string>;
+
+/**
+ * Locale bundles by Obsidian language code
+ * To add a language, create `locales/<code>.ts` (missing keys fall back to English) and register it here.
+ * Regional codes (e.g. zh-TW) fall back to their base language.
+ */
+const LOCALES: Record<string, Partial<Locale>> = {
+  en,
+  zh,
+};
+
+let currentLocale: Partial<Locale> | null = null;
+
+/**
+ * Get Obsidian's configured language
+ * getLanguage() exists since Obsidian 1.8; older versions keep the language in localStorage
+ */
+function getAppLanguage(): string {
+  if (typeof getLanguage === 'function') {
+    return getLanguage();
+  }
+  return window.localStorage.getItem('language') ?? 'en';
+}
+
+function resolveLocale(): Partial<Locale> {
+  const language = getAppLanguage();
+  return LOCALES[language] ?? LOCALES[language.split('-')[0]] ?? en;
+}
+
+/**
+ * Translate a string into Obsidian's language
+ * @param key - Translation key
+ * @param params - Values for `{name}` placeholders
+ */
+export function t(key: TranslationKey, params: Record<string, string | number> = {}): string {
+  if (!currentLocale) {
+    currentLocale = resolveLocale();
+  }
+  const template = currentLocale[key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
@@ -0,0 +1,240 @@
+/**
+ * English strings - the reference locale
+ * Every key must exist here; other locales fall back to these strings for missing keys.
+ * Placeholders like {name} are filled in by t().
+ */
+const en = {
+  // Commands
+  'command.forceRefresh': 'Force refresh cursor',
+  'command.locateCursor': 'Locate cursor',
+  'command.showDiagnostic': 'Show cursor diagnostic info',
+  'command.switchProfile': 'Switch settings profile',
+  'command.cycleProfile': 'Switch to next settings profile',
+  'command.applyProfile': 'Apply settings profile: {name}',
+
+  // Notices
+  'notice.diagnostic': 'Smooth Cursor diagnostic info written to the console\nLine: {line}, position: {position}',
+  'notice.profileApplied': 'Smooth Cursor: switched to "{name}"',
+  'notice.settingsReset': 'Smooth Cursor: invalid settings were reset to defaults\n{errors}',
+  'notice.themeCopied': 'Smooth Cursor: theme copied to clipboard',
+  'notice.themeCopyFailed': 'Smooth Cursor: could not copy the theme to the clipboard ({message}), copy it from the text box instead',
+  'notice.themeImported': 'Smooth Cursor: imported theme "{name}"',
+
+  // Vim modes
+  'mode.normal': 'Normal mode',
+  'mode.insert': 'Insert mode',
+  'mode.visual': 'Visual mode',
+  'mode.replace': 'Replace mode',
+  'mode.command': 'Command mode',
+  'mode.visual-line': 'Visual Line mode',
+  'mode.visual-block': 'Visual Block mode',
+  'mode.operator-pending': 'Operator-pending mode',
+
+  // Settings tab
+  'settings.title': 'Smooth Cursor settings',
+
+  'settings.enableAnimation.name': 'Enable smooth animation',
+  'settings.enableAnimation.desc': 'Animate the cursor smoothly when it moves',
+  'settings.animationDuration.name': 'Animation duration',
+  'settings.animationDuration.desc': 'Duration of the cursor movement animation (ms)',
+  'settings.interpolation.name': 'Interpolation',
+  'settings.interpolation.desc': 'Animation curve of cursor movement',
+  'settings.interpolation.lerp': 'Linear interpolation (default)',
+  'settings.interpolation.ease-out': 'Ease out (ease-out)',
+  'settings.interpolation.ease-in-out': 'Ease in and out (ease-in-out)',
+  'settings.interpolation.cubic-bezier': 'Custom cubic bezier',
+  'settings.interpolation.spring': 'Spring physics',
+  'settings.bezier.name': 'Bezier control points',
+  'settings.bezier.desc': 'Same format as CSS cubic-bezier(): x1, y1, x2, y2 (x between 0 and 1)',
+  'settings.springStiffness.name': 'Spring stiffness',
+  'settings.springStiffness.desc': 'Higher values reach the target faster',
+  'settings.springDamping.name': 'Spring damping ratio',
+  'settings.springDamping.desc': '1 is critically damped (no bounce); below 1 the cursor overshoots and bounces back',
+
+  'settings.insertMode.heading': 'Insert mode animation',
+  'settings.enableInsertAnimation.name': 'Enable insert mode animation',
+  'settings.enableInsertAnimation.desc': 'Animate the cursor smoothly while typing',
+  'settings.insertAnimationDuration.name': 'Insert mode animation duration',
+  'settings.insertAnimationDuration.desc': 'Duration of the cursor animation while typing (ms); keep it short so typing stays responsive',
+  'settings.ime.name': 'IME composition',
+  'settings.ime.desc': 'Cursor behaviour while composing with a Chinese/Japanese input method; typing animation applies after the text is committed',
+  'settings.ime.track': 'Follow the end of the composition text',
+  'settings.ime.freeze': 'Stay put, move after commit',
+  'settings.transform.name': 'Use transform animation',
+  'settings.transform.desc': 'Animate with CSS transform (GPU accelerated and smoother, but the cursor may look slightly blurry)',
+
+  'settings.colorSource.name': 'Cursor color source',
+  'settings.colorSource.desc': 'Theme colors update automatically when switching light/dark mode or themes (used when per-mode colors are off)',
+  'settings.colorSource.custom': 'Custom color',
+  'settings.colorSource.accent': 'Theme accent (--interactive-accent)',
+  'settings.colorSource.text-normal': 'Theme text color (--text-normal)',
+  'settings.colorSource.css-variable': 'Custom CSS variable',
+  'settings.colorSource.light-dark': 'Separate light and dark colors',
+  'settings.cursorColor.name': 'Cursor color',
+  'settings.cursorColor.desc': 'Color of the cursor',
+  'settings.fallbackColor.name': 'Fallback cursor color',
+  'settings.fallbackColor.desc': 'Used when the theme variable is not defined',
+  'settings.cssVariable.name': 'CSS variable name',
+  'settings.cssVariable.desc': 'Any theme CSS variable, e.g. --text-accent, --color-red',
+  'settings.lightColor.name': 'Light theme cursor color',
+  'settings.lightColor.desc': 'Cursor color with a light theme',
+  'settings.darkColor.name': 'Dark theme cursor color',
+  'settings.darkColor.desc': 'Cursor color with a dark theme',
+  'settings.cursorOpacity.name': 'Cursor opacity',
+  'settings.cursorOpacity.desc': 'Opacity of the cursor (0-1)',
+  'settings.cursorCharacter.name': 'Show character in block cursor',
+  'settings.cursorCharacter.desc': 'Draw the character under the block cursor like a terminal, using the editor font, weight and size',
+  'settings.cursorTextColor.name': 'Cursor text color',
+  'settings.cursorTextColor.desc': 'Color of the character inside the block cursor',
+  'settings.perModeColors.name': 'Per-mode colors',
+  'settings.perModeColors.desc': 'Set cursor color and opacity for each Vim mode; colors blend smoothly when switching modes',
+  'settings.modeColor.desc': 'Cursor color and opacity in {mode}',
+  'settings.modeColor.inheritedDesc': 'Follows the color of {parent}; changing it overrides the color for this mode',
+  'settings.followParent': 'Follow {parent}',
+
+  'settings.breathing.heading': 'Breathing animation',
+  'settings.enableBreathing.name': 'Enable breathing animation',
+  'settings.enableBreathing.desc': 'Add a smooth breathing effect to the cursor (in every mode)',
+  'settings.breathingDuration.name': 'Breathing duration',
+  'settings.breathingDuration.desc': 'Duration of one full breathing cycle (seconds)',
+  'settings.breathingMinOpacity.name': 'Breathing minimum opacity',
+  'settings.breathingMinOpacity.desc': 'Lowest opacity the cursor fades to while breathing (0-1)',
+
+  'settings.trail.heading': 'Trail effect',
+  'settings.enableTrail.name': 'Enable trail effect',
+  'settings.enableTrail.desc': 'Leave a fading trail between start and end of long jumps (gg, G, search)',
+  'settings.trailLength.name': 'Trail length',
+  'settings.trailLength.desc': 'Time the tail takes to catch up with the cursor (ms); higher values give longer trails',
+  'settings.trailOpacity.name': 'Trail opacity',
+  'settings.trailOpacity.desc': 'Opacity of the trail when it appears (0-1)',
+  'settings.trailMinDistance.name': 'Minimum trail distance',
+  'settings.trailMinDistance.desc': 'Only jumps longer than this (px) leave a trail',
+
+  'settings.smoothScroll.heading': 'Smooth scrolling',
+  'settings.enableSmoothScroll.name': 'Enable smooth scrolling',
+  'settings.enableSmoothScroll.desc': 'Animate the viewport for vim page motions (Ctrl-D/U/F/B, zz/zt/zb, gg, G) instead of jumping; the cursor moves along with the text',
+  'settings.smoothScrollDuration.name': 'Scroll duration',
+  'settings.smoothScrollDuration.desc': 'Duration of the scroll animation (ms)',
+
+  'settings.selection.heading': 'Selection animation',
+  'settings.enableSelection.name': 'Enable smooth selection animation',
+  'settings.enableSelection.desc': 'Draw the selection in visual modes and let it grow and shrink smoothly with the cursor (Visual, Visual Line, Visual Block)',
+  'settings.selectionColor.name': 'Selection color',
+  'settings.selectionColor.desc': 'Color and opacity (0-1) of the selection',
+
+  'settings.lineHighlight.heading': 'Current line highlight',
+  'settings.enableLineHighlight.name': 'Enable animated line highlight',
+  'settings.enableLineHighlight.desc': 'Draw the current-line highlight and let it slide with the cursor (follows soft-wrapped lines)',
+  'settings.gutterHighlight.name': 'Highlight line number',
+  'settings.gutterHighlight.desc': 'Draw a matching band behind the current line number in the gutter',
+  'settings.lineHighlightColor.name': 'Line highlight color',
+  'settings.lineHighlightColor.desc': 'Color and opacity (0-1) of the line highlight',
+  'settings.lineHighlightWidth.name': 'Line highlight width',
+  'settings.lineHighlightWidth.desc': 'Span the whole editor or only the text column',
+  'settings.lineHighlightWidth.full': 'Full width',
+  'settings.lineHighlightWidth.text': 'Text width',
+
+  'settings.inputCursor.heading': 'Input fields',
+  'settings.enableInputCursor.name': 'Smooth cursor in input fields',
+  'settings.enableInputCursor.desc': 'Also draw the animated cursor in text fields outside the editor (inline title, properties, search, command palette, rename dialogs), using the insert mode shape and color',
+
+  'settings.accessibility.heading': 'Accessibility',
+  'settings.reducedMotion.name': 'Respect system "reduce motion"',
+  'settings.reducedMotion.desc': 'When the system reduces motion, the cursor jumps instantly and breathing and trail effects are off',
+  'settings.highContrast.name': 'High-contrast cursor',
+  'settings.highContrast.desc': 'Add a thick outline and keep the cursor fully opaque so it is visible on any background',
+  'settings.crosshair.name': 'Crosshair',
+  'settings.crosshair.desc': 'Highlight the cursor\'s line and column to find it quickly (see also the "Locate cursor" command)',
+  'settings.locatorStyle.name': 'Cursor locator animation',
+  'settings.locatorStyle.desc': 'Animation played on the cursor by the "Locate cursor" command and automatic locating',
+  'settings.locatorStyle.ring': 'Shrinking ring',
+  'settings.locatorStyle.halo': 'Expanding halo',
+  'settings.autoLocator.name': 'Locate after long jumps',
+  'settings.autoLocator.desc': 'Play the locator when the cursor jumps further than the distance below (gg, G, search, outline headings)',
+  'settings.autoLocatorDistance.name': 'Minimum jump distance for locating',
+  'settings.autoLocatorDistance.desc': 'Jumps longer than this (px) play the locator',
+  'settings.autoLocatorOnAttach.name': 'Locate when switching editors',
+  'settings.autoLocatorOnAttach.desc': 'Play the locator when switching to another editor (opening notes, following backlinks, ...)',
+
+  'settings.shapes.heading': 'Cursor shape per mode',
+  'settings.unfocusedHollow.name': 'Hollow cursor when unfocused',
+  'settings.unfocusedHollow.desc': 'Show a hollow block at the cursor position instead of hiding it when the editor loses focus',
+  'settings.shape.block': 'Block',
+  'settings.shape.line': 'Line',
+  'settings.shape.underline': 'Underline',
+  'settings.shape.hollow': 'Hollow block',
+  'settings.modeShape.desc': 'Cursor shape in {mode}',
+
+  'settings.statusBar.heading': 'Status bar',
+  'settings.showStatusBarMode.name': 'Show vim mode in the status bar',
+  'settings.showStatusBarMode.desc': 'Show the current mode in its cursor color; click it for quick toggles, profiles and commands. Only shown while vim key bindings are on',
+  'settings.showStatusBarPending.name': 'Show pending count and register',
+  'settings.showStatusBarPending.desc': 'Show the count and register typed before a command next to the mode, e.g. "a3',
+
+  'settings.debug.name': 'Debug mode',
+  'settings.debug.desc': 'Log debug information to the console',
+
+  // Settings tab - themes
+  'settings.themes.heading': 'Cursor themes',
+  'settings.builtInThemes.name': 'Built-in themes',
+  'settings.builtInThemes.desc': 'Apply preset colors, shapes, animation and breathing (other settings are kept)',
+  'settings.apply': 'Apply',
+  'settings.importExport.name': 'Import / export theme',
+  'settings.importExport.desc': 'Share color, shape, animation and breathing settings as JSON',
+  'settings.exportTheme': 'Export cursor theme',
+  'settings.importTheme': 'Import cursor theme',
+
+  // Settings tab - profiles
+  'settings.profiles.heading': 'Settings profiles',
+  'settings.saveProfile.name': 'Save current settings as profile',
+  'settings.saveProfile.desc': 'Save all cursor, animation and breathing settings; switch between profiles from the command palette or a hotkey (a profile with the same name is overwritten)',
+  'settings.saveProfile.placeholder': 'e.g. Writing, Presenting, Coding',
+  'settings.save': 'Save',
+  'settings.overwriteProfile': 'Overwrite with current settings',
+  'settings.deleteProfile': 'Delete profile',
+
+  // Profiles
+  'profile.current': '{name} (current)',
+  'profile.placeholder': 'Choose a profile to apply',
+
+  // Status bar
+  'statusBar.tooltip': 'Smooth Cursor: {mode}',
+
+  // Theme modal
+  'theme.exportTitle': 'Export cursor theme',
+  'theme.name': 'Theme name',
+  'theme.defaultName': 'My cursor theme',
+  'theme.untitled': 'Untitled theme',
+  'theme.copy': 'Copy to clipboard',
+  'theme.importTitle': 'Import cursor theme',
+  'theme.importDesc': 'Paste exported theme JSON. Out-of-range numbers are clamped to the limits of the settings tab, invalid fields are skipped.',
+  'theme.import': 'Import',
+  'theme.importedWithIssues': 'Imported theme "{name}". These fields had problems:',
+  'theme.invalidJson': 'Could not parse JSON: {message}',
+  'theme.notTheme': 'Not a Smooth Cursor theme (missing "schema": "{schema}")',
+  'theme.invalidVersion': 'version: expected a positive integer',
+  'theme.newerVersion': 'Theme version {version} is newer than the supported version {supported}; please update the plugin',
+
+  // Settings validation
+  'validation.notObject': 'Settings must be a JSON object',
+  'validation.unknownKey': '{key}: unknown field, ignored',
+  'validation.boolean': '{key}: expected true or false',
+  'validation.number': '{key}: expected a number',
+  'validation.clamped': '{key}: {value} is outside {min}-{max}, clamped to {clamped}',
+  'validation.color': '{key}: expected a hex color (e.g. #528bff)',
+  'validation.string': '{key}: expected a string',
+  'validation.bezier': '{key}: expected a bezier curve "x1, y1, x2, y2" (x between 0 and 1)',
+  'validation.enum': '{key}: expected one of {values}',
+  'validation.object': '{key}: expected an object',
+  'validation.enumIgnored': '{key}: expected one of {values}, ignored',
+  'validation.modeColorIgnored': '{key}: expected { color: "#rrggbb", opacity: number }, ignored',
+  'validation.adjusted': '{key}: adjusted to {value}',
+
+  // Settings migration
+  'migration.dataNotObject': 'Settings data must be an object, defaults restored',
+  'migration.newerVersion': 'Settings version {version} is newer than the supported version {supported}',
+  'migration.profilesNotArray': 'profiles: expected an array',
+  'migration.profileDropped': 'profiles[{index}]: missing id or name, removed',
+};
+
+export default en;
@@ -0,0 +1,240 @@
+import type { Locale } from '../index';
+
+/**
+ * Simplified Chinese strings
+ */
+const zh: Locale = {
+  // Commands
+  'command.forceRefresh': '强制刷新光标',
+  'command.locateCursor': '定位光标',
+  'command.showDiagnostic': '显示光标诊断信息',
+  'command.switchProfile': '切换配置方案',
+  'command.cycleProfile': '切换到下一个配置方案',
+  'command.applyProfile': '应用配置方案：{name}',
+
+  // Notices
+  'notice.diagnostic': 'Smooth Cursor 诊断信息已输出到控制台\n行: {line}, 位置: {position}',
+  'notice.profileApplied': 'Smooth Cursor：已切换到「{name}」',
+  'notice.settingsReset': 'Smooth Cursor：无效的设置已恢复为默认值\n{errors}',
+  'notice.themeCopied': 'Smooth Cursor：主题已复制到剪贴板',
+  'notice.themeCopyFailed': 'Smooth Cursor：无法复制主题到剪贴板（{message}），请从文本框中手动复制',
+  'notice.themeImported': 'Smooth Cursor：已导入主题「{name}」',
+
+  // Vim modes
+  'mode.normal': 'Normal 模式',
+  'mode.insert': 'Insert 模式',
+  'mode.visual': 'Visual 模式',
+  'mode.replace': 'Replace 模式',
+  'mode.command': 'Command 模式',
+  'mode.visual-line': 'Visual Line 模式',
+  'mode.visual-block': 'Visual Block 模式',
+  'mode.operator-pending': 'Operator-pending 模式',
+
+  // Settings tab
+  'settings.title': 'Smooth Cursor - 平滑光标设置',
+
+  'settings.enableAnimation.name': '启用平滑动画',
+  'settings.enableAnimation.desc': '开启光标移动时的平滑过渡动画',
+  'settings.animationDuration.name': '动画时长',
+  'settings.animationDuration.desc': '光标移动动画的持续时间（毫秒）',
+  'settings.interpolation.name': '插值方式',
+  'settings.interpolation.desc': '光标移动的动画曲线',
+  'settings.interpolation.lerp': '线性插值（默认）',
+  'settings.interpolation.ease-out': '缓出 (ease-out)',
+  'settings.interpolation.ease-in-out': '缓入缓出 (ease-in-out)',
+  'settings.interpolation.cubic-bezier': '自定义贝塞尔曲线',
+  'settings.interpolation.spring': '弹簧物理',
+  'settings.bezier.name': '贝塞尔曲线参数',
+  'settings.bezier.desc': '格式同 CSS cubic-bezier()：x1, y1, x2, y2（x 取值 0-1）',
+  'settings.springStiffness.name': '弹簧刚度',
+  'settings.springStiffness.desc': '数值越大光标越快到达目标位置',
+  'settings.springDamping.name': '弹簧阻尼比',
+  'settings.springDamping.desc': '1 为临界阻尼（无回弹），小于 1 时光标会越过目标后回弹',
+
+  'settings.insertMode.heading': '输入模式动画',
+  'settings.enableInsertAnimation.name': '启用输入模式平滑动画',
+  'settings.enableInsertAnimation.desc': '在输入文字时启用光标平滑移动效果',
+  'settings.insertAnimationDuration.name': '输入模式动画时长',
+  'settings.insertAnimationDuration.desc': '输入时光标移动动画的持续时间（毫秒），建议设置较短以保持流畅',
+  'settings.ime.name': '输入法组合输入',
+  'settings.ime.desc': '使用中文/日文输入法输入时光标的行为，输入模式动画在文字上屏后才生效',
+  'settings.ime.track': '跟随未上屏文字末尾',
+  'settings.ime.freeze': '保持不动，上屏后再移动',
+  'settings.transform.name': '使用 Transform 动画',
+  'settings.transform.desc': '使用 CSS transform 进行动画（GPU加速更流畅，但光标可能略显模糊）',
+
+  'settings.colorSource.name': '光标颜色来源',
+  'settings.colorSource.desc': '跟随主题的颜色会在切换浅色/深色主题或更换主题时自动更新（未启用「按模式设置颜色」时使用）',
+  'settings.colorSource.custom': '自定义颜色',
+  'settings.colorSource.accent': '主题强调色 (--interactive-accent)',
+  'settings.colorSource.text-normal': '主题文字颜色 (--text-normal)',
+  'settings.colorSource.css-variable': '自定义 CSS 变量',
+  'settings.colorSource.light-dark': '浅色/深色主题分别设置',
+  'settings.cursorColor.name': '光标颜色',
+  'settings.cursorColor.desc': '自定义光标的颜色',
+  'settings.fallbackColor.name': '备用光标颜色',
+  'settings.fallbackColor.desc': '主题变量未定义时使用的颜色',
+  'settings.cssVariable.name': 'CSS 变量名',
+  'settings.cssVariable.desc': '任意主题 CSS 变量，例如 --text-accent、--color-red',
+  'settings.lightColor.name': '浅色主题光标颜色',
+  'settings.lightColor.desc': '使用浅色主题时的光标颜色',
+  'settings.darkColor.name': '深色主题光标颜色',
+  'settings.darkColor.desc': '使用深色主题时的光标颜色',
+  'settings.cursorOpacity.name': '光标透明度',
+  'settings.cursorOpacity.desc': '光标的不透明度（0-1）',
+  'settings.cursorCharacter.name': '在块状光标中显示字符',
+  'settings.cursorCharacter.desc': '像终端一样在块状光标内绘制光标下的字符，使用编辑器的字体、字重和字号',
+  'settings.cursorTextColor.name': '光标文字颜色',
+  'settings.cursorTextColor.desc': '块状光标内字符的颜色',
+  'settings.perModeColors.name': '按模式设置颜色',
+  'settings.perModeColors.desc': '为每个 Vim 模式单独设置光标颜色和透明度，切换模式时颜色平滑过渡',
+  'settings.modeColor.desc': '{mode}下的光标颜色和透明度',
+  'settings.modeColor.inheritedDesc': '跟随{parent}的颜色，修改后单独生效',
+  'settings.followParent': '跟随{parent}',
+
+  'settings.breathing.heading': '呼吸动画',
+  'settings.enableBreathing.name': '启用呼吸动画',
+  'settings.enableBreathing.desc': '为光标添加平滑的呼吸效果（在所有模式下生效）',
+  'settings.breathingDuration.name': '呼吸动画时长',
+  'settings.breathingDuration.desc': '呼吸动画一个完整周期的时长（秒）',
+  'settings.breathingMinOpacity.name': '呼吸最小透明度',
+  'settings.breathingMinOpacity.desc': '呼吸动画时光标淡出到的最小透明度（0-1）',
+
+  'settings.trail.heading': '拖尾效果',
+  'settings.enableTrail.name': '启用拖尾效果',
+  'settings.enableTrail.desc': '光标长距离跳转时（如 gg、G、搜索）在起点和终点之间留下渐隐的拖影',
+  'settings.trailLength.name': '拖尾长度',
+  'settings.trailLength.desc': '拖影尾部追上光标所需的时间（毫秒），数值越大拖尾越长',
+  'settings.trailOpacity.name': '拖尾透明度',
+  'settings.trailOpacity.desc': '拖影开始时的不透明度（0-1）',
+  'settings.trailMinDistance.name': '触发拖尾的最小距离',
+  'settings.trailMinDistance.desc': '光标跳转距离超过该值（像素）时才显示拖尾',
+
+  'settings.smoothScroll.heading': '平滑滚动',
+  'settings.enableSmoothScroll.name': '启用平滑滚动',
+  'settings.enableSmoothScroll.desc': 'Vim 翻页类操作（Ctrl-D/U/F/B、zz/zt/zb、gg、G）时视图平滑滚动而非瞬间跳转，光标随文本一起移动',
+  'settings.smoothScrollDuration.name': '滚动时长',
+  'settings.smoothScrollDuration.desc': '滚动动画的持续时间（毫秒）',
+
+  'settings.selection.heading': '选区动画',
+  'settings.enableSelection.name': '启用选区平滑动画',
+  'settings.enableSelection.desc': 'Visual 模式下由插件绘制选区，选区随光标平滑伸缩（支持 Visual、Visual Line、Visual Block）',
+  'settings.selectionColor.name': '选区颜色',
+  'settings.selectionColor.desc': '选区的颜色和不透明度（0-1）',
+
+  'settings.lineHighlight.heading': '当前行高亮',
+  'settings.enableLineHighlight.name': '启用当前行平滑高亮',
+  'settings.enableLineHighlight.desc': '由插件绘制当前行高亮，并随光标平滑滑动（跟随自动换行后的视觉行）',
+  'settings.gutterHighlight.name': '高亮行号',
+  'settings.gutterHighlight.desc': '在行号栏中为当前行号绘制同样的高亮',
+  'settings.lineHighlightColor.name': '当前行高亮颜色',
+  'settings.lineHighlightColor.desc': '当前行高亮的颜色和不透明度（0-1）',
+  'settings.lineHighlightWidth.name': '当前行高亮宽度',
+  'settings.lineHighlightWidth.desc': '覆盖整个编辑器宽度，或仅覆盖文本区域',
+  'settings.lineHighlightWidth.full': '整个编辑器',
+  'settings.lineHighlightWidth.text': '文本宽度',
+
+  'settings.inputCursor.heading': '输入框',
+  'settings.enableInputCursor.name': '输入框平滑光标',
+  'settings.enableInputCursor.desc': '在编辑器以外的文本输入框（内联标题、属性、搜索、命令面板、重命名对话框）中也显示平滑光标，使用插入模式的形状和颜色',
+
+  'settings.accessibility.heading': '无障碍',
+  'settings.reducedMotion.name': '遵循系统「减弱动态效果」',
+  'settings.reducedMotion.desc': '系统开启减弱动态效果时，光标瞬间移动，关闭呼吸动画和拖尾效果',
+  'settings.highContrast.name': '高对比度光标',
+  'settings.highContrast.desc': '为光标添加粗轮廓并保持完全不透明，便于在任何背景上看清',
+  'settings.crosshair.name': '十字准线',
+  'settings.crosshair.desc': '高亮光标所在的行和列，帮助快速找到光标（也可使用「定位光标」命令）',
+  'settings.locatorStyle.name': '光标定位动画',
+  'settings.locatorStyle.desc': '「定位光标」命令和自动定位时在光标处播放的动画',
+  'settings.locatorStyle.ring': '收缩圆环',
+  'settings.locatorStyle.halo': '扩散光晕',
+  'settings.autoLocator.name': '长距离跳转后自动定位',
+  'settings.autoLocator.desc': '光标跳转距离超过下方设置时（如 gg、G、搜索、点击大纲标题）自动播放定位动画',
+  'settings.autoLocatorDistance.name': '自动定位的最小跳转距离',
+  'settings.autoLocatorDistance.desc': '光标跳转距离超过该值（像素）时自动定位',
+  'settings.autoLocatorOnAttach.name': '切换编辑器时自动定位',
+  'settings.autoLocatorOnAttach.desc': '切换到另一个编辑器（打开笔记、跟随反向链接等）时自动播放定位动画',
+
+  'settings.shapes.heading': '各模式光标形状',
+  'settings.unfocusedHollow.name': '失焦时显示空心光标',
+  'settings.unfocusedHollow.desc': '编辑器失去焦点时在原位置显示空心块光标，而不是隐藏光标',
+  'settings.shape.block': '块状',
+  'settings.shape.line': '竖线',
+  'settings.shape.underline': '下划线',
+  'settings.shape.hollow': '空心块',
+  'settings.modeShape.desc': '{mode}下的光标形状',
+
+  'settings.statusBar.heading': '状态栏',
+  'settings.showStatusBarMode.name': '在状态栏显示 Vim 模式',
+  'settings.showStatusBarMode.desc': '以该模式的光标颜色显示当前模式，点击可快速切换动画、配置方案或执行命令。仅在开启 Vim 键位时显示',
+  'settings.showStatusBarPending.name': '显示待输入的计数和寄存器',
+  'settings.showStatusBarPending.desc': '在模式旁显示命令前输入的寄存器和计数，例如 "a3',
+
+  'settings.debug.name': '调试模式',
+  'settings.debug.desc': '在控制台输出调试信息',
+
+  // Settings tab - themes
+  'settings.themes.heading': '光标主题',
+  'settings.builtInThemes.name': '内置主题',
+  'settings.builtInThemes.desc': '应用预设的颜色、形状、动画和呼吸效果（其他设置保持不变）',
+  'settings.apply': '应用',
+  'settings.importExport.name': '导入 / 导出主题',
+  'settings.importExport.desc': '以 JSON 格式分享颜色、形状、动画和呼吸效果设置',
+  'settings.exportTheme': '导出光标主题',
+  'settings.importTheme': '导入光标主题',
+
+  // Settings tab - profiles
+  'settings.profiles.heading': '配置方案',
+  'settings.saveProfile.name': '保存当前设置为方案',
+  'settings.saveProfile.desc': '保存光标、动画和呼吸效果等全部设置，可通过命令面板或快捷键快速切换（同名方案会被覆盖）',
+  'settings.saveProfile.placeholder': '例如：写作、演示、编程',
+  'settings.save': '保存',
+  'settings.overwriteProfile': '用当前设置覆盖',
+  'settings.deleteProfile': '删除方案',
+
+  // Profiles
+  'profile.current': '{name}（当前）',
+  'profile.placeholder': '选择要应用的配置方案',
+
+  // Status bar
+  'statusBar.tooltip': 'Smooth Cursor：{mode}',
+
+  // Theme modal
+  'theme.exportTitle': '导出光标主题',
+  'theme.name': '主题名称',
+  'theme.defaultName': '我的光标主题',
+  'theme.untitled': '未命名主题',
+  'theme.copy': '复制到剪贴板',
+  'theme.importTitle': '导入光标主题',
+  'theme.importDesc': '粘贴导出的主题 JSON。超出范围的数值会被调整到设置项允许的范围内，无效字段会被忽略。',
+  'theme.import': '导入',
+  'theme.importedWithIssues': '已导入主题「{name}」，以下字段有问题：',
+  'theme.invalidJson': '无法解析 JSON：{message}',
+  'theme.notTheme': '不是 Smooth Cursor 主题文件（缺少 "schema": "{schema}"）',
+  'theme.invalidVersion': 'version: 应为正整数',
+  'theme.newerVersion': '主题版本 {version} 高于当前支持的版本 {supported}，请更新插件',
+
+  // Settings validation
+  'validation.notObject': '设置应为 JSON 对象',
+  'validation.unknownKey': '{key}: 未知字段，已忽略',
+  'validation.boolean': '{key}: 应为 true 或 false',
+  'validation.number': '{key}: 应为数字',
+  'validation.clamped': '{key}: {value} 超出范围 {min}-{max}，已调整为 {clamped}',
+  'validation.color': '{key}: 应为十六进制颜色（如 #528bff）',
+  'validation.string': '{key}: 应为字符串',
+  'validation.bezier': '{key}: 应为 "x1, y1, x2, y2" 格式的贝塞尔曲线（x 取值 0-1）',
+  'validation.enum': '{key}: 应为 {values} 之一',
+  'validation.object': '{key}: 应为对象',
+  'validation.enumIgnored': '{key}: 应为 {values} 之一，已忽略',
+  'validation.modeColorIgnored': '{key}: 应为 { color: "#rrggbb", opacity: 数字 }，已忽略',
+  'validation.adjusted': '{key}: 已调整为 {value}',
+
+  // Settings migration
+  'migration.dataNotObject': '设置数据应为对象，已恢复默认设置',
+  'migration.newerVersion': '设置版本 {version} 高于当前支持的版本 {supported}',
+  'migration.profilesNotArray': 'profiles: 应为数组',
+  'migration.profileDropped': 'profiles[{index}]: 缺少 id 或 name，已移除',
+};
+
+export default zh;
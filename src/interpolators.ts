@@ -0,0 +1,311 @@
+import type { AnimationInterpolation, CursorPosition, SmoothCursorSettings } from './types';
+
+/**
+ * Interpolator - Moves the animated cursor position towards its target
+ * Implementations mutate `current` in place to avoid per-frame allocations
+ */
+export interface Interpolator {
+  /**
+   * Called when the animation target changes
+   * @param current - Current animated position
+   * @param target - New target position
+   * @param time - Timestamp in ms (performance.now() timebase)
+   * @param duration - Animation duration in ms for this movement
+   */
+  retarget(current: CursorPosition, target: CursorPosition, time: number, duration: number): void;
+
+  /**
+   * Advance the current position towards the target
+   * @param time - Frame timestamp in ms
+   * @param dt - Time since previous frame in ms
+   * @param duration - Animation duration in ms for this movement
+   * @returns true when the animation has settled on the target
+   */
+  step(current: CursorPosition, target: CursorPosition, time: number, dt: number, duration: number): boolean;
+
+  /**
+   * Drop any internal state (velocity, segment start) after an immediate jump
+   */
+  reset(): void;
+}
+
+// Threshold for position: 0.5^2 = 0.25
+// Threshold for dimensions: 0.1^2 = 0.01 (smaller threshold for smoother dimension transitions)
+const POSITION_THRESHOLD = 0.25;
+const DIMENSION_THRESHOLD = 0.01;
+
+/**
+ * Reference frame length (ms) the lerp factor is defined against
+ */
+export const REFERENCE_FRAME_MS = 16;
+
+/**
+ * Copy position values without allocating
+ */
+function copyPosition(from: CursorPosition, to: CursorPosition): void {
+  to.x = from.x;
+  to.y = from.y;
+  to.width = from.width;
+  to.height = from.height;
+}
+
+/**
+ * Check if current is close enough to target in both position and dimensions
+ */
+function isSettled(current: CursorPosition, target: CursorPosition): boolean {
+  const dx = target.x - current.x;
+  const dy = target.y - current.y;
+  const dw = target.width - current.width;
+  const dh = target.height - current.height;
+  return dx * dx + dy * dy < POSITION_THRESHOLD && dw * dw + dh * dh < DIMENSION_THRESHOLD;
+}
+
+/**
+ * Exponential lerp - the original animation behaviour, made frame-rate independent
+ * The factor is defined per 16ms reference frame (16 / duration) and scaled by the
+ * real frame delta, so the cursor moves at the same speed on 60Hz, 144Hz and throttled windows
+ */
+export class LerpInterpolator implements Interpolator {
+  retarget(): void {
+    // Lerp is stateless - it always chases the latest target
+  }
+
+  step(current: CursorPosition, target: CursorPosition, time: number, dt: number, duration: number): boolean {
+    const referenceFactor = Math.min(1, REFERENCE_FRAME_MS / Math.max(duration, REFERENCE_FRAME_MS));
+    const factor = 1 - Math.pow(1 - referenceFactor, Math.max(0, dt) / REFERENCE_FRAME_MS);
+
+    current.x += (target.x - current.x) * factor;
+    current.y += (target.y - current.y) * factor;
+    current.width += (target.width - current.width) * factor;
+    current.height += (target.height - current.height) * factor;
+
+    if (isSettled(current, target)) {
+      copyPosition(target, current);
+      return true;
+    }
+    return false;
+  }
+
+  reset(): void {
+    // Nothing to reset
+  }
+}
+
+/**
+ * Create a cubic-bezier easing function (same semantics as CSS cubic-bezier())
+ * Solves x(t) with Newton-Raphson and falls back to bisection
+ */
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): (progress: number) => number {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+  const sampleDerivativeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+  const solveT = (x: number): number => {
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = sampleX(t) - x;
+      if (Math.abs(error) < 1e-6) return t;
+      const derivative = sampleDerivativeX(t);
+      if (Math.abs(derivative) < 1e-6) break;
+      t -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = x;
+    while (low < high) {
+      const value = sampleX(t);
+      if (Math.abs(value - x) < 1e-6) return t;
+      if (x > value) {
+        low = t;
+      } else {
+        high = t;
+      }
+      t = (low + high) / 2;
+      if (high - low < 1e-6) break;
+    }
+    return t;
+  };
+
+  return (progress: number) => {
+    if (progress <= 0) return 0;
+    if (progress >= 1) return 1;
+    return sampleY(solveT(progress));
+  };
+}
+
+/**
+ * Parse a "x1, y1, x2, y2" cubic-bezier string
+ * @returns Control points, or null if the string is invalid (x values must be within 0-1)
+ */
+export function parseCubicBezier(value: string): [number, number, number, number] | null {
+  const parts = value.split(',').map((part) => parseFloat(part.trim()));
+  if (parts.length !== 4 || parts.some((n) => !isFinite(n))) {
+    return null;
+  }
+  const [x1, y1, x2, y2] = parts;
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    return null;
+  }
+  return [x1, y1, x2, y2];
+}
+
+/**
+ * Time-based easing - each movement runs from its start position to the target
+ * over exactly `duration` ms following the easing curve
+ */
+export class EasingInterpolator implements Interpolator {
+  private easing: (progress: number) => number;
+  private from: CursorPosition = { x: 0, y: 0, width: 0, height: 0 };
+  private startTime = 0;
+  private segmentDuration = 0;
+  private hasSegment = false;
+
+  constructor(easing: (progress: number) => number) {
+    this.easing = easing;
+  }
+
+  retarget(current: CursorPosition, target: CursorPosition, time: number, duration: number): void {
+    copyPosition(current, this.from);
+    this.startTime = time;
+    this.segmentDuration = duration;
+    this.hasSegment = true;
+  }
+
+  step(current: CursorPosition, target: CursorPosition, time: number, dt: number, duration: number): boolean {
+    if (!this.hasSegment) {
+      this.retarget(current, target, time, duration);
+    }
+
+    const progress = this.segmentDuration > 0
+      ? Math.min(1, Math.max(0, (time - this.startTime) / this.segmentDuration))
+      : 1;
+
+    if (progress >= 1) {
+      copyPosition(target, current);
+      this.hasSegment = false;
+      return true;
+    }
+
+    const eased = this.easing(progress);
+    current.x = this.from.x + (target.x - this.from.x) * eased;
+    current.y = this.from.y + (target.y - this.from.y) * eased;
+    current.width = this.from.width + (target.width - this.from.width) * eased;
+    current.height = this.from.height + (target.height - this.from.height) * eased;
+    return false;
+  }
+
+  reset(): void {
+    this.hasSegment = false;
+  }
+}
+
+/**
+ * Damped spring (unit mass) - velocity is kept across retargets so rapid
+ * movements blend naturally. Damping ratio 1 is critically damped, below 1 overshoots.
+ * Stiffness is scaled for shorter (typing) durations so they settle proportionally faster.
+ */
+export class SpringInterpolator implements Interpolator {
+  private stiffness: number;
+  private dampingRatio: number;
+  private referenceDuration: number;
+  private velocity: CursorPosition = { x: 0, y: 0, width: 0, height: 0 };
+
+  // Integrate with fixed sub-steps for stability at low frame rates
+  private maxSubStep = 1000 / 240;
+  private restVelocity = 0.5; // px per second
+
+  constructor(stiffness: number, dampingRatio: number, referenceDuration: number) {
+    this.stiffness = stiffness;
+    this.dampingRatio = dampingRatio;
+    this.referenceDuration = Math.max(referenceDuration, 1);
+  }
+
+  retarget(): void {
+    // Keep current velocity - the spring simply pulls towards the new target
+  }
+
+  step(current: CursorPosition, target: CursorPosition, time: number, dt: number, duration: number): boolean {
+    const scale = this.referenceDuration / Math.max(duration, 1);
+    const stiffness = this.stiffness * scale * scale;
+    const damping = 2 * this.dampingRatio * Math.sqrt(stiffness);
+
+    let remaining = Math.max(0, dt);
+    while (remaining > 0) {
+      const h = Math.min(remaining, this.maxSubStep) / 1000;
+      remaining -= this.maxSubStep;
+
+      // Semi-implicit Euler
+      this.velocity.x += (-stiffness * (current.x - target.x) - damping * this.velocity.x) * h;
+      this.velocity.y += (-stiffness * (current.y - target.y) - damping * this.velocity.y) * h;
+      this.velocity.width += (-stiffness * (current.width - target.width) - damping * this.velocity.width) * h;
+      this.velocity.height += (-stiffness * (current.height - target.height) - damping * this.velocity.height) * h;
+      current.x += this.velocity.x * h;
+      current.y += this.velocity.y * h;
+      current.width += this.velocity.width * h;
+      current.height += this.velocity.height * h;
+    }
+
+    const { x: vx, y: vy, width: vw, height: vh } = this.velocity;
+    const isAtRest = vx * vx + vy * vy + vw * vw + vh * vh < this.restVelocity * this.restVelocity;
+    if (isAtRest && isSettled(current, target)) {
+      copyPosition(target, current);
+      this.reset();
+      return true;
+    }
+    return false;
+  }
+
+  reset(): void {
+    this.velocity.x = 0;
+    this.velocity.y = 0;
+    this.velocity.width = 0;
+    this.velocity.height = 0;
+  }
+}
+
+/**
+ * Named easing curves available in settings
+ */
+export const EASING_CURVES: Record<'ease-out' | 'ease-in-out', [number, number, number, number]> = {
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Get the settings values that affect interpolator construction
+ * Used by consumers to detect when the interpolator must be rebuilt
+ */
+export function getInterpolatorKey(settings: SmoothCursorSettings): string {
+  const { animationInterpolation, animationCustomBezier, springStiffness, springDampingRatio, animationDuration } = settings;
+  return `${animationInterpolation}|${animationCustomBezier}|${springStiffness}|${springDampingRatio}|${animationDuration}`;
+}
+
+/**
+ * Create the interpolator selected in settings
+ */
+export function createInterpolator(settings: SmoothCursorSettings): Interpolator {
+  const mode: AnimationInterpolation = settings.animationInterpolation;
+
+  switch (mode) {
+    case 'ease-out':
+    case 'ease-in-out':
+      return new EasingInterpolator(cubicBezier(...EASING_CURVES[mode]));
+    case 'cubic-bezier': {
+      const points = parseCubicBezier(settings.animationCustomBezier) ?? EASING_CURVES['ease-out'];
+      return new EasingInterpolator(cubicBezier(...points));
+    }
+    case 'spring':
+      return new SpringInterpolator(settings.springStiffness, settings.springDampingRatio, settings.animationDuration);
+    case 'lerp':
+    default:
+      return new LerpInterpolator();
+  }
+}
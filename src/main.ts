@@ -1,4 +1,4 @@
-import { Plugin, MarkdownView, WorkspaceLeaf } from 'obsidian';
+import { Plugin, MarkdownView, Notice, WorkspaceLeaf } from 'obsidian';
 import { EditorView } from '@codemirror/view';
 import { SmoothCursorSettingTab } from './settings';
 import { VimStateProvider } from './vim-state';
@@ -6,28 +6,53 @@ import { CursorRenderer } from './cursor-renderer';
 import { AnimationEngine } from './animation';
 import { DEFAULT_SETTINGS, type SmoothCursorSettings, type VimMode } from './types';
 import { StyleManager } from './core/style-manager';
+import { ProfileManager } from './core/profile-manager';
+import { ThemeManager } from './core/theme-manager';
+import { StatusBarManager } from './core/status-bar-manager';
+import { InputCursorManager } from './core/input-cursor-manager';
 import { DiagnosticService } from './services/diagnostic-service';
+import { EditorDiscoveryService } from './services/editor-discovery-service';
+import { createCursorUpdateExtension } from './cursor-update-extension';
+import { SETTINGS_VERSION, migrateSettings } from './settings-migration';
+import { t } from './i18n';
+import { createApi, CURSOR_MOVE_EVENT, MODE_CHANGE_EVENT } from './api';
+import { REDUCED_MOTION_QUERY } from './cursor-utils';
 import type { CodeMirror5Editor } from './types/obsidian-extensions';
-import { getEditorViewFromMarkdownView, getCodeMirror5EditorFromMarkdownView } from './utils/type-guards';
+import type { SmoothCursorApi } from '../smooth-cursor-api';
+import {
+  getEditorViewFromMarkdownView,
+  getCodeMirror5EditorFromMarkdownView,
+  getCodeMirror5EditorFromEditorView,
+} from './utils/type-guards';
 
 export default class SmoothCursorPlugin extends Plugin {
   settings: SmoothCursorSettings = DEFAULT_SETTINGS;
   vimState: VimStateProvider | null = null;
   cursorRenderer: CursorRenderer | null = null;
   animationEngine: AnimationEngine | null = null;
+  api: SmoothCursorApi; // Public API for other plugins and scripts, see smooth-cursor-api.d.ts
+  private renderingPaused = false;
   private activeEditorView: EditorView | null = null;
   private currentCodeMirrorEditor: CodeMirror5Editor | null = null; // CodeMirror 5 editor instance for vim-mode-change event
   
   // Managers
   private styleManager: StyleManager;
+  profileManager: ProfileManager;
+  themeManager: ThemeManager;
+  private statusBarManager: StatusBarManager;
+  private inputCursorManager: InputCursorManager;
   private diagnosticService: DiagnosticService;
+  private editorDiscoveryService: EditorDiscoveryService;
 
   async onload() {
     await this.loadSettings();
     
     // Initialize managers
     this.styleManager = new StyleManager();
+    this.profileManager = new ProfileManager(this);
+    this.themeManager = new ThemeManager(this);
     this.diagnosticService = new DiagnosticService(this);
+    this.editorDiscoveryService = new EditorDiscoveryService();
     
     // Add settings tab
     this.addSettingTab(new SmoothCursorSettingTab(this.app, this));
@@ -37,9 +62,29 @@ export default class SmoothCursorPlugin extends Plugin {
     this.animationEngine = new AnimationEngine(this);
     this.cursorRenderer = new CursorRenderer(this, this.animationEngine);
     
+    // Public API, its notifications are also triggered as workspace events
+    this.api = createApi(this);
+    this.register(this.api.onModeChange((mode) => this.app.workspace.trigger(MODE_CHANGE_EVENT, mode)));
+    this.register(this.api.onCursorMove((event) => this.app.workspace.trigger(CURSOR_MOVE_EVENT, event)));
+    
+    // Vim mode indicator in the status bar
+    this.statusBarManager = new StatusBarManager(this);
+    this.statusBarManager.setup();
+    
     // Inject global styles
     this.styleManager.injectStyles(this.settings);
     
+    // Smooth cursor in text fields outside the editor (opt-in)
+    this.inputCursorManager = new InputCursorManager(this);
+    this.inputCursorManager.observe(document);
+    
+    // Track selection and document changes in every editor through a registered extension
+    this.registerEditorExtension(
+      createCursorUpdateExtension((update) => {
+        this.cursorRenderer?.handleViewUpdate(update);
+      })
+    );
+    
     // Register workspace events
     this.registerEvent(
       this.app.workspace.on('active-leaf-change', (leaf) => {
@@ -47,8 +92,47 @@ export default class SmoothCursorPlugin extends Plugin {
       })
     );
 
+    // Follow focus into editors that are not a MarkdownView leaf
+    // (Canvas cards, embedded notes, hover popovers, Kanban/Excalidraw markdown editors)
+    this.editorDiscoveryService.start((editorView) => {
+      this.onEditorFocus(editorView);
+    });
+    this.editorDiscoveryService.observe(document);
+
+    // Popout windows have their own document - inject styles and follow focus there too
+    this.registerEvent(
+      this.app.workspace.on('window-open', (_workspaceWindow, win) => {
+        this.onWindowOpen(win);
+      })
+    );
+    this.registerEvent(
+      this.app.workspace.on('window-close', (_workspaceWindow, win) => {
+        this.onWindowClose(win);
+      })
+    );
+
+    // OS reduced-motion setting changed - restyle and stop/resume breathing
+    const reducedMotionQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onReducedMotionChange = () => this.updateCursorStyle();
+    reducedMotionQuery.addEventListener('change', onReducedMotionChange);
+    this.register(() => reducedMotionQuery.removeEventListener('change', onReducedMotionChange));
+
+    // Theme or light/dark switch - re-resolve theme-aware cursor colors
+    this.registerEvent(
+      this.app.workspace.on('css-change', () => {
+        this.updateCursorStyle();
+      })
+    );
+
     // Initial setup when layout is ready
     this.app.workspace.onLayoutReady(() => {
+      // Popout windows restored before the plugin was enabled
+      this.app.workspace.iterateAllLeaves((leaf) => {
+        const win = leaf.view.containerEl.ownerDocument.defaultView;
+        if (win && win !== window) {
+          this.onWindowOpen(win);
+        }
+      });
       this.onActiveLeafChange(this.app.workspace.activeLeaf);
       this.debug('Smooth Cursor plugin loaded');
     });
@@ -56,33 +140,40 @@ export default class SmoothCursorPlugin extends Plugin {
     // Add commands for debugging
     this.addCommand({
       id: 'force-refresh-cursor',
-      name: '强制刷新光标',
+      name: t('command.forceRefresh'),
       callback: () => {
-        this.cursorRenderer?.forceUpdate();
-        console.log('[SmoothCursor] Cursor force refreshed');
+        this.forceRefreshCursor();
+      },
+    });
+
+    this.addCommand({
+      id: 'locate-cursor',
+      name: t('command.locateCursor'),
+      callback: () => {
+        this.cursorRenderer?.locateCursor();
       },
     });
 
     this.addCommand({
       id: 'show-cursor-diagnostic',
-      name: '显示光标诊断信息',
+      name: t('command.showDiagnostic'),
       callback: () => {
-        this.diagnosticService.showCursorDiagnostic(this.activeEditorView);
+        this.showCursorDiagnostic();
       },
     });
+
+    // Settings profile switching
+    this.profileManager.registerCommands();
   }
 
   onunload() {
+    this.editorDiscoveryService.stop();
+    
     // Clean up vim-mode-change event listener
-    if (this.currentCodeMirrorEditor && this.vimState) {
-      try {
-        this.currentCodeMirrorEditor.off('vim-mode-change', this.vimState.onVimModeChanged);
-      } catch (e) {
-        this.debug('Error removing vim-mode-change listener on unload:', e);
-      }
-      this.currentCodeMirrorEditor = null;
-    }
+    this.detachVimModeListener();
     
+    this.statusBarManager.remove();
+    this.inputCursorManager.destroy();
     this.cursorRenderer?.destroy();
     this.animationEngine?.stop();
     this.vimState?.destroy();
@@ -91,11 +182,21 @@ export default class SmoothCursorPlugin extends Plugin {
   }
 
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const { settings, report } = migrateSettings(await this.loadData());
+    this.settings = settings;
+
+    if (report.errors.length > 0) {
+      this.debug('Invalid settings reset to defaults:', report.errors);
+      new Notice(t('notice.settingsReset', { errors: report.errors.join('\n') }), 10000);
+    }
+    this.debug('Settings loaded', { fromVersion: report.fromVersion, warnings: report.warnings });
+    if (report.changed) {
+      await this.saveSettings();
+    }
   }
 
   async saveSettings() {
-    await this.saveData(this.settings);
+    await this.saveData({ ...this.settings, settingsVersion: SETTINGS_VERSION });
   }
 
   /**
@@ -103,6 +204,8 @@ export default class SmoothCursorPlugin extends Plugin {
    */
   updateCursorStyle() {
     this.styleManager.updateStyles(this.settings);
+    this.statusBarManager.update();
+    this.inputCursorManager.updateStyle();
     // Force cursor to update shape/animation when styles change
     if (this.cursorRenderer) {
       // Trigger update to apply new animation settings
@@ -112,6 +215,51 @@ export default class SmoothCursorPlugin extends Plugin {
     }
   }
 
+  /**
+   * Re-measure and redraw the cursor
+   */
+  forceRefreshCursor() {
+    this.cursorRenderer?.forceUpdate();
+    this.debug('Cursor force refreshed');
+  }
+
+  /**
+   * Log cursor diagnostic info for the active editor
+   */
+  showCursorDiagnostic() {
+    this.diagnosticService.showCursorDiagnostic(this.activeEditorView);
+  }
+
+  /**
+   * Stop drawing the smooth cursor - the native caret comes back until resumed
+   */
+  pauseRendering() {
+    if (this.renderingPaused) return;
+    this.renderingPaused = true;
+    this.cursorRenderer?.detach();
+    this.inputCursorManager.updateStyle();
+    this.debug('Rendering paused');
+  }
+
+  /**
+   * Resume drawing the smooth cursor
+   */
+  resumeRendering() {
+    if (!this.renderingPaused) return;
+    this.renderingPaused = false;
+    if (this.activeEditorView) {
+      this.cursorRenderer?.attach(this.activeEditorView);
+    }
+    this.debug('Rendering resumed');
+  }
+
+  /**
+   * Whether rendering is paused through the API
+   */
+  isRenderingPaused(): boolean {
+    return this.renderingPaused;
+  }
+
   /**
    * Get current vim mode
    */
@@ -136,19 +284,8 @@ export default class SmoothCursorPlugin extends Plugin {
   }
 
   private onActiveLeafChange(leaf: WorkspaceLeaf | null) {
-    // Clean up previous vim-mode-change event listener
-    if (this.currentCodeMirrorEditor && this.vimState) {
-      try {
-        this.currentCodeMirrorEditor.off('vim-mode-change', this.vimState.onVimModeChanged);
-      } catch (e) {
-        this.debug('Error removing vim-mode-change listener:', e);
-      }
-      this.currentCodeMirrorEditor = null;
-    }
-
     if (!leaf) {
-      this.activeEditorView = null;
-      this.cursorRenderer?.detach();
+      this.detachFromEditor();
       return;
     }
 
@@ -164,32 +301,112 @@ export default class SmoothCursorPlugin extends Plugin {
       const codeMirrorEditor = getCodeMirror5EditorFromMarkdownView(view);
       
       if (editorView) {
-        this.activeEditorView = editorView;
-        this.cursorRenderer?.attach(editorView);
-        this.vimState?.attach(editorView);
-        
-        // Set up vim-mode-change event listener on CodeMirror 5 editor
-        if (codeMirrorEditor && this.vimState) {
-          try {
-            // Remove any existing listener first (in case it wasn't cleaned up)
-            codeMirrorEditor.off('vim-mode-change', this.vimState.onVimModeChanged);
-            // Add new listener
-            codeMirrorEditor.on('vim-mode-change', this.vimState.onVimModeChanged);
-            this.currentCodeMirrorEditor = codeMirrorEditor;
-            this.debug('Attached vim-mode-change event listener to editor');
-          } catch (e) {
-            this.debug('Error setting up vim-mode-change listener:', e);
-            // Fallback to existing detection methods if event listener fails
-          }
-        } else {
-          this.debug('CodeMirror editor not found, using DOM detection only');
-        }
-        
-        this.debug('Attached to editor view');
+        this.attachToEditor(editorView, codeMirrorEditor);
+      }
+      return;
+    }
+
+    // Non-markdown leaf (e.g. Canvas) - follow the editor inside it if one already has focus,
+    // otherwise wait for the discovery service to report one
+    const focusedEditorView = this.editorDiscoveryService.findFocusedEditorView(leaf.view.containerEl.ownerDocument);
+    if (focusedEditorView && leaf.view.containerEl.contains(focusedEditorView.dom)) {
+      this.onEditorFocus(focusedEditorView);
+    } else {
+      this.detachFromEditor();
+    }
+  }
+
+  /**
+   * Set up a popout window (idempotent)
+   */
+  private onWindowOpen(win: Window) {
+    const doc = win.document;
+    if (!this.styleManager.hasStyles(doc)) {
+      this.styleManager.injectStyles(this.settings, doc);
+    }
+    this.editorDiscoveryService.observe(doc);
+    this.inputCursorManager.observe(doc);
+    this.debug('Popout window opened');
+  }
+
+  /**
+   * Clean up a closed popout window
+   */
+  private onWindowClose(win: Window) {
+    const doc = win.document;
+    if (this.activeEditorView?.dom.ownerDocument === doc) {
+      this.detachFromEditor();
+    }
+    this.styleManager.removeStyles(doc);
+    this.editorDiscoveryService.unobserve(doc);
+    this.inputCursorManager.unobserve(doc);
+    this.debug('Popout window closed');
+  }
+
+  /**
+   * Handle focus entering any CodeMirror 6 editor
+   */
+  private onEditorFocus(editorView: EditorView) {
+    if (editorView === this.activeEditorView) return;
+    this.attachToEditor(editorView, getCodeMirror5EditorFromEditorView(editorView));
+  }
+
+  /**
+   * Attach renderer and vim state tracking to an editor
+   * @param editorView - CodeMirror 6 EditorView
+   * @param codeMirrorEditor - codemirror-vim adapter for vim-mode-change events (if vim is enabled)
+   */
+  private attachToEditor(editorView: EditorView, codeMirrorEditor: CodeMirror5Editor | undefined) {
+    // Clean up previous vim-mode-change event listener
+    this.detachVimModeListener();
+
+    this.activeEditorView = editorView;
+    if (!this.renderingPaused) {
+      this.cursorRenderer?.attach(editorView);
+    }
+    this.vimState?.attach(editorView, codeMirrorEditor);
+    
+    // Set up vim-mode-change event listener on CodeMirror 5 editor
+    if (codeMirrorEditor && this.vimState) {
+      try {
+        // Remove any existing listener first (in case it wasn't cleaned up)
+        codeMirrorEditor.off('vim-mode-change', this.vimState.onVimModeChanged);
+        // Add new listener
+        codeMirrorEditor.on('vim-mode-change', this.vimState.onVimModeChanged);
+        this.currentCodeMirrorEditor = codeMirrorEditor;
+        this.debug('Attached vim-mode-change event listener to editor');
+      } catch (e) {
+        this.debug('Error setting up vim-mode-change listener:', e);
+        // Fallback to existing detection methods if event listener fails
       }
     } else {
-      this.activeEditorView = null;
-      this.cursorRenderer?.detach();
+      this.debug('CodeMirror editor not found, using DOM detection only');
+    }
+    
+    this.debug('Attached to editor view');
+  }
+
+  /**
+   * Detach renderer and vim state tracking from the current editor
+   */
+  private detachFromEditor() {
+    this.detachVimModeListener();
+    this.activeEditorView = null;
+    this.cursorRenderer?.detach();
+    this.vimState?.detach();
+  }
+
+  /**
+   * Remove vim-mode-change listener from the current CodeMirror 5 editor
+   */
+  private detachVimModeListener() {
+    if (this.currentCodeMirrorEditor && this.vimState) {
+      try {
+        this.currentCodeMirrorEditor.off('vim-mode-change', this.vimState.onVimModeChanged);
+      } catch (e) {
+        this.debug('Error removing vim-mode-change listener:', e);
+      }
     }
+    this.currentCodeMirrorEditor = null;
   }
 }
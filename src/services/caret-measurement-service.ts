@@ -0,0 +1,146 @@
+import type { CursorPosition } from '../types';
+
+/**
+ * Form field with a native text caret
+ */
+export type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+/**
+ * Input types that have a caret and support the selection API
+ */
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'url', 'tel', 'password']);
+
+/**
+ * Computed styles copied to the mirror so it lays text out exactly like the field
+ */
+const MIRRORED_PROPERTIES = [
+  'direction', 'boxSizing', 'width',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth', 'borderStyle',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'fontStyle', 'fontVariant', 'fontWeight', 'fontStretch', 'fontSize', 'fontSizeAdjust', 'lineHeight', 'fontFamily',
+  'textAlign', 'textTransform', 'textIndent', 'letterSpacing', 'wordSpacing', 'tabSize',
+] as const;
+
+/**
+ * Check whether an element is an input or textarea with a text caret
+ */
+export function isTextField(element: Element): element is TextField {
+  // No instanceof check - elements from popout windows belong to another realm
+  if (element.tagName === 'TEXTAREA') return true;
+  return element.tagName === 'INPUT' && TEXT_INPUT_TYPES.has((element as HTMLInputElement).type);
+}
+
+/**
+ * Caret measurement service for plain inputs, textareas and contenteditable fields
+ * Inputs and textareas do not expose caret coordinates, so their text up to the caret
+ * is laid out in a hidden mirror element styled like the field and the end of it is measured.
+ */
+export class CaretMeasurementService {
+  /**
+   * Measure the caret of a focused field in viewport coordinates
+   * @returns Caret rectangle (width is the character after the caret), or null when it cannot be measured
+   */
+  measure(field: HTMLElement): CursorPosition | null {
+    const position = isTextField(field) ? this.measureTextField(field) : this.measureContentEditable(field);
+    if (!position) return null;
+
+    // Scrolled out of the field (long inputs, textareas with a scrollbar)
+    const fieldRect = field.getBoundingClientRect();
+    if (position.x < fieldRect.left - 1 || position.x > fieldRect.right + 1 ||
+        position.y + position.height <= fieldRect.top || position.y >= fieldRect.bottom) {
+      return null;
+    }
+    return position;
+  }
+
+  private measureTextField(field: TextField): CursorPosition | null {
+    const caret = field.selectionDirection === 'backward' ? field.selectionStart : field.selectionEnd;
+    if (caret === null) return null;
+
+    const doc = field.ownerDocument;
+    const style = doc.defaultView?.getComputedStyle(field);
+    if (!style) return null;
+
+    const isInput = field.tagName === 'INPUT';
+    const mirror = doc.createElement('div');
+    for (const property of MIRRORED_PROPERTIES) {
+      mirror.style[property] = style[property];
+    }
+    mirror.style.position = 'absolute';
+    mirror.style.top = '0';
+    mirror.style.left = '-9999px';
+    mirror.style.visibility = 'hidden';
+    mirror.style.overflow = 'hidden';
+    mirror.style.whiteSpace = isInput ? 'pre' : 'pre-wrap';
+    mirror.style.overflowWrap = isInput ? 'normal' : 'break-word';
+
+    // Password fields render bullets, not the value
+    const value = field.type === 'password' ? '•'.repeat(field.value.length) : field.value;
+    mirror.textContent = value.substring(0, caret);
+    const charEl = doc.createElement('span');
+    // An empty span has no width - measure a space at the end of the text
+    charEl.textContent = value.charAt(caret) || ' ';
+    mirror.appendChild(charEl);
+    doc.body.appendChild(mirror);
+
+    const fontSize = parseFloat(style.fontSize) || 16;
+    const lineHeight = parseFloat(style.lineHeight) || fontSize * 1.2;
+    const charLeft = charEl.offsetLeft;
+    const charTop = charEl.offsetTop;
+    const charWidth = charEl.offsetWidth || fontSize * 0.6;
+    mirror.remove();
+
+    const fieldRect = field.getBoundingClientRect();
+    const borderLeft = parseFloat(style.borderLeftWidth) || 0;
+    const borderTop = parseFloat(style.borderTopWidth) || 0;
+    const x = fieldRect.left + borderLeft + charLeft - field.scrollLeft;
+
+    // Single-line inputs center their text vertically
+    const height = isInput ? Math.min(lineHeight, fieldRect.height) : lineHeight;
+    const y = isInput
+      ? fieldRect.top + (fieldRect.height - height) / 2
+      : fieldRect.top + borderTop + charTop - field.scrollTop;
+
+    return { x, y, width: charWidth, height };
+  }
+
+  private measureContentEditable(element: HTMLElement): CursorPosition | null {
+    const doc = element.ownerDocument;
+    const selection = doc.getSelection();
+    const focusNode = selection?.focusNode;
+    if (!selection || !focusNode || !element.contains(focusNode)) return null;
+
+    const range = doc.createRange();
+    range.setStart(focusNode, selection.focusOffset);
+    range.collapse(true);
+    const caretRect = range.getClientRects()[0];
+
+    // Width of the character after the caret
+    let charWidth = 0;
+    if (focusNode.nodeType === Node.TEXT_NODE && selection.focusOffset < (focusNode.textContent?.length ?? 0)) {
+      range.setEnd(focusNode, selection.focusOffset + 1);
+      charWidth = range.getBoundingClientRect().width;
+    }
+
+    const style = doc.defaultView?.getComputedStyle(element);
+    const fontSize = parseFloat(style?.fontSize ?? '') || 16;
+    const lineHeight = parseFloat(style?.lineHeight ?? '') || fontSize * 1.2;
+    const width = charWidth || fontSize * 0.6;
+    if (caretRect) {
+      return { x: caretRect.left, y: caretRect.top, width, height: caretRect.height || lineHeight };
+    }
+
+    // Empty field or empty line - collapsed ranges there have no rectangle,
+    // use the start of the containing element's content box
+    const container = (focusNode.nodeType === Node.ELEMENT_NODE ? focusNode : focusNode.parentElement) as HTMLElement | null;
+    if (!container) return null;
+    const containerStyle = doc.defaultView?.getComputedStyle(container);
+    const containerRect = container.getBoundingClientRect();
+    return {
+      x: containerRect.left + (parseFloat(containerStyle?.borderLeftWidth ?? '') || 0) + (parseFloat(containerStyle?.paddingLeft ?? '') || 0),
+      y: containerRect.top + (parseFloat(containerStyle?.borderTopWidth ?? '') || 0) + (parseFloat(containerStyle?.paddingTop ?? '') || 0),
+      width,
+      height: lineHeight,
+    };
+  }
+}
@@ -1,4 +1,5 @@
 import { EditorView } from '@codemirror/view';
+import type { CursorCharacter } from '../types';
 import { getDefaultCharWidth } from '../utils/editor-utils';
 
 /**
@@ -63,6 +64,44 @@ export class CharacterMeasurementService {
     return width;
   }
 
+  /**
+   * Get the character at a position and the font it is rendered with
+   * @returns null at line end, for whitespace, or when the DOM is unavailable
+   */
+  getCharacterAt(pos: number): CursorCharacter | null {
+    if (!this.editorView) return null;
+
+    const doc = this.editorView.state.doc;
+    if (pos >= doc.length) return null;
+
+    const line = doc.lineAt(pos);
+    const codePoint = line.text.codePointAt(pos - line.from);
+    if (codePoint === undefined) return null;
+
+    // Keep surrogate pairs (emoji, rare CJK) together
+    const char = String.fromCodePoint(codePoint);
+    if (!char.trim()) return null;
+
+    try {
+      // End of the character lands inside its text node
+      const { node } = this.editorView.domAtPos(pos + char.length);
+      const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : node as HTMLElement;
+      if (!element) return null;
+
+      const view = element.ownerDocument.defaultView ?? window;
+      const style = view.getComputedStyle(element);
+      return {
+        char,
+        fontFamily: style.fontFamily,
+        fontSize: style.fontSize,
+        fontWeight: style.fontWeight,
+        fontStyle: style.fontStyle,
+      };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Measure the width of the character at the given position
    */
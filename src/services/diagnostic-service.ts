@@ -1,6 +1,7 @@
 import { EditorView } from '@codemirror/view';
 import { Notice } from 'obsidian';
 import type SmoothCursorPlugin from '../main';
+import { t } from '../i18n';
 
 /**
  * Diagnostic service for cursor state debugging
@@ -32,14 +33,18 @@ export class DiagnosticService {
       const line = doc.lineAt(pos);
       
       info.cursorPosition = pos;
+      info.selectionRanges = activeEditorView.state.selection.ranges.length;
       info.lineNumber = line.number;
       info.lineLength = line.length;
       info.documentLength = doc.length;
       
-      // Check if cursor element exists (now in document.body)
-      const cursorEl = document.body.querySelector('.smooth-cursor');
+      // Check if cursor element exists (in the body of the editor's own document)
+      const ownerDoc = activeEditorView.dom.ownerDocument;
+      const cursorEl = ownerDoc.body.querySelector('.smooth-cursor:not(.smooth-cursor-secondary)');
       info.cursorElementExists = !!cursorEl;
-      info.cursorElementInBody = !!document.body.querySelector('.smooth-cursor');
+      info.cursorElementInBody = !!ownerDoc.body.querySelector('.smooth-cursor:not(.smooth-cursor-input)');
+      info.secondaryCursorElements = ownerDoc.body.querySelectorAll('.smooth-cursor-secondary').length;
+      info.isPopoutWindow = ownerDoc !== document;
       
       if (cursorEl) {
         const rect = cursorEl.getBoundingClientRect();
@@ -49,7 +54,7 @@ export class DiagnosticService {
           width: rect.width,
           height: rect.height,
         };
-        const style = window.getComputedStyle(cursorEl);
+        const style = (ownerDoc.defaultView ?? window).getComputedStyle(cursorEl);
         info.cursorElementStyle = {
           display: style.display,
           visibility: style.visibility,
@@ -99,7 +104,7 @@ export class DiagnosticService {
     console.table(info);
     
     // Also show a notice
-    const noticeText = `Smooth Cursor 诊断信息已输出到控制台\n行: ${info.lineNumber || '?'}, 位置: ${info.cursorPosition || '?'}`;
+    const noticeText = t('notice.diagnostic', { line: String(info.lineNumber || '?'), position: String(info.cursorPosition || '?') });
     new Notice(noticeText, 5000);
   }
 }
@@ -192,7 +192,7 @@ export class DOMChangeDetectorService {
         this.changeCallback();
       } finally {
         // Reset processing flag after a short delay to allow DOM to settle
-        requestAnimationFrame(() => {
+        this.getOwnerWindow().requestAnimationFrame(() => {
           this.isProcessing = false;
         });
       }
@@ -216,12 +216,19 @@ export class DOMChangeDetectorService {
     try {
       this.changeCallback();
     } finally {
-      requestAnimationFrame(() => {
+      this.getOwnerWindow().requestAnimationFrame(() => {
         this.isProcessing = false;
       });
     }
   }
 
+  /**
+   * Get window of the attached editor (popout windows have their own frame loop)
+   */
+  private getOwnerWindow(): Window {
+    return this.editorView?.dom.ownerDocument.defaultView ?? window;
+  }
+
   /**
    * Get current debounce delay
    */
@@ -0,0 +1,86 @@
+import { EditorView } from '@codemirror/view';
+import { EventManager } from '../core/event-manager';
+
+/**
+ * Callback invoked when a CodeMirror 6 editor receives focus
+ */
+export type EditorFocusCallback = (editorView: EditorView) => void;
+
+/**
+ * Editor discovery service
+ * Finds the focused CodeMirror 6 EditorView wherever it lives - markdown leaves,
+ * Canvas cards, embedded notes, hover popovers and third-party markdown editors
+ * (Kanban, Excalidraw) - by listening for focusin on `.cm-editor` elements.
+ * Each observed document (main window and popout windows) gets its own listeners.
+ */
+export class EditorDiscoveryService {
+  private eventManagers: Map<Document, EventManager> = new Map();
+  private callback: EditorFocusCallback | null = null;
+
+  /**
+   * Set the callback invoked with the focused EditorView
+   */
+  start(onEditorFocus: EditorFocusCallback): void {
+    this.callback = onEditorFocus;
+  }
+
+  /**
+   * Start listening for editor focus in a document
+   */
+  observe(doc: Document): void {
+    if (this.eventManagers.has(doc)) return;
+
+    const eventManager = new EventManager();
+    const focusinHandler = (e: FocusEvent) => {
+      const editorView = this.findEditorViewFromElement(e.target as Element | null);
+      if (editorView) {
+        this.callback?.(editorView);
+      }
+    };
+
+    // Capture phase so the editor is known before other focus handlers run
+    eventManager.addEventListener(doc, 'focusin', focusinHandler, true);
+    this.eventManagers.set(doc, eventManager);
+  }
+
+  /**
+   * Stop listening for editor focus in a document
+   */
+  unobserve(doc: Document): void {
+    this.eventManagers.get(doc)?.removeAll();
+    this.eventManagers.delete(doc);
+  }
+
+  /**
+   * Stop listening in every document
+   */
+  stop(): void {
+    this.eventManagers.forEach((eventManager) => eventManager.removeAll());
+    this.eventManagers.clear();
+    this.callback = null;
+  }
+
+  /**
+   * Find the EditorView that currently has focus in a document
+   */
+  findFocusedEditorView(doc: Document): EditorView | null {
+    return this.findEditorViewFromElement(doc.activeElement);
+  }
+
+  /**
+   * Find the EditorView owning an element
+   */
+  findEditorViewFromElement(element: Element | null): EditorView | null {
+    if (!element || typeof element.closest !== 'function') return null;
+
+    // No instanceof check - elements from popout windows belong to another realm
+    const editorEl = element.closest('.cm-editor') as HTMLElement | null;
+    if (!editorEl) return null;
+
+    try {
+      return EditorView.findFromDOM(editorEl);
+    } catch (e) {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import { EditorView } from '@codemirror/view';
+import type { CursorPosition, SelectionKind } from '../types';
+
+/**
+ * Screen rectangle edges
+ */
+interface Edges {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+/**
+ * Selection geometry service
+ * Turns the editor selection into at most a few screen rectangles:
+ * - charwise: first line tail, full middle lines, last line head (like CodeMirror's own selection layer)
+ * - linewise: one rectangle covering the selected lines
+ * - blockwise: bounding box of all selection ranges (vim visual block uses one range per line)
+ * Rectangles are clipped to the visible part of the editor scroller.
+ */
+export class SelectionGeometryService {
+  private editorView: EditorView | null = null;
+
+  /**
+   * Attach to an EditorView
+   */
+  attach(editorView: EditorView) {
+    this.editorView = editorView;
+  }
+
+  /**
+   * Detach from current editor
+   */
+  detach() {
+    this.editorView = null;
+  }
+
+  /**
+   * Get the screen rectangles of the current selection
+   * @param kind - Selection shape (charwise, linewise, blockwise)
+   * @returns Rectangles in viewport coordinates, empty when nothing is selected or visible
+   */
+  getSelectionRects(kind: SelectionKind): CursorPosition[] {
+    if (!this.editorView) return [];
+
+    const selection = this.editorView.state.selection;
+    if (selection.ranges.every((range) => range.empty)) return [];
+
+    const content = this.getContentEdges();
+    const clip = this.editorView.scrollDOM.getBoundingClientRect();
+    let rects: Edges[];
+
+    switch (kind) {
+      case 'linewise':
+        rects = this.getLinewiseRects(selection.main.from, selection.main.to, content);
+        break;
+      case 'blockwise':
+        rects = this.getBlockwiseRects();
+        break;
+      case 'charwise':
+      default:
+        rects = this.getCharwiseRects(selection.main.from, selection.main.to, content);
+        break;
+    }
+
+    const result: CursorPosition[] = [];
+    for (const rect of rects) {
+      const top = Math.max(rect.top, clip.top);
+      const bottom = Math.min(rect.bottom, clip.bottom);
+      if (bottom <= top || rect.right <= rect.left) continue;
+      result.push({ x: rect.left, y: top, width: rect.right - rect.left, height: bottom - top });
+    }
+    return result;
+  }
+
+  private getCharwiseRects(from: number, to: number, content: Edges): Edges[] {
+    const start = this.getCoords(from, 1);
+    const end = this.getCoords(to, -1);
+    if (!start || !end) return [];
+
+    // Same visual line
+    if (Math.abs(start.top - end.top) < 1) {
+      return [{ left: start.left, right: Math.max(end.left, start.left + 2), top: start.top, bottom: start.bottom }];
+    }
+
+    const rects: Edges[] = [
+      { left: start.left, right: content.right, top: start.top, bottom: start.bottom },
+    ];
+    if (end.top > start.bottom + 1) {
+      rects.push({ left: content.left, right: content.right, top: start.bottom, bottom: end.top });
+    }
+    rects.push({ left: content.left, right: Math.max(end.left, content.left + 2), top: end.top, bottom: end.bottom });
+    return rects;
+  }
+
+  private getLinewiseRects(from: number, to: number, content: Edges): Edges[] {
+    if (!this.editorView) return [];
+
+    const doc = this.editorView.state.doc;
+    const start = this.getCoords(doc.lineAt(from).from, 1);
+    const end = this.getCoords(doc.lineAt(to).to, -1);
+    if (!start || !end) return [];
+
+    return [{ left: content.left, right: content.right, top: start.top, bottom: end.bottom }];
+  }
+
+  private getBlockwiseRects(): Edges[] {
+    if (!this.editorView) return [];
+
+    let bounds: Edges | null = null;
+    for (const range of this.editorView.state.selection.ranges) {
+      const start = this.getCoords(range.from, 1);
+      const end = this.getCoords(range.to, -1);
+      if (!start || !end) continue;
+
+      const left = Math.min(start.left, end.left);
+      const right = Math.max(start.left, end.left);
+      bounds = bounds
+        ? {
+          left: Math.min(bounds.left, left),
+          right: Math.max(bounds.right, right),
+          top: Math.min(bounds.top, start.top),
+          bottom: Math.max(bounds.bottom, end.bottom),
+        }
+        : { left, right, top: start.top, bottom: end.bottom };
+    }
+    return bounds ? [bounds] : [];
+  }
+
+  /**
+   * Get coordinates of a position, clamped to the rendered viewport
+   */
+  private getCoords(pos: number, side: -1 | 1): Edges | null {
+    if (!this.editorView) return null;
+
+    const { from, to } = this.editorView.viewport;
+    const clamped = Math.min(Math.max(pos, from), to);
+    const coords = this.editorView.coordsAtPos(clamped, side) ?? this.editorView.coordsAtPos(clamped, side === 1 ? -1 : 1);
+    if (!coords || !isFinite(coords.left) || !isFinite(coords.top)) return null;
+    return coords;
+  }
+
+  /**
+   * Get the left/right edges of the text area (content box without padding)
+   */
+  private getContentEdges(): Edges {
+    const contentDOM = this.editorView?.contentDOM;
+    if (!contentDOM) return { left: 0, right: 0, top: 0, bottom: 0 };
+
+    const rect = contentDOM.getBoundingClientRect();
+    const style = (contentDOM.ownerDocument.defaultView ?? window).getComputedStyle(contentDOM);
+    return {
+      left: rect.left + (parseFloat(style.paddingLeft) || 0),
+      right: rect.right - (parseFloat(style.paddingRight) || 0),
+      top: rect.top,
+      bottom: rect.bottom,
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { DEFAULT_SETTINGS, type ProfileSettings, type SettingsProfile, type SmoothCursorSettings } from './types';
+import { SETTINGS_SCHEMA, completeModeMaps, validateSettings } from './settings-schema';
+import { t } from './i18n';
+
+/**
+ * Current version of the stored settings format
+ * Saved as `settingsVersion` next to the settings in data.json.
+ */
+export const SETTINGS_VERSION = 1;
+
+/**
+ * One step of the migration pipeline, upgrading stored data to `version`
+ */
+interface SettingsMigration {
+  version: number;
+  migrate: (data: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * Migrations in ascending version order
+ * Add a step whenever a setting is renamed or changes meaning, and bump SETTINGS_VERSION.
+ */
+const MIGRATIONS: SettingsMigration[] = [
+  {
+    // Releases 1.0.0-1.2.8 stored no version; their fields are unchanged,
+    // so validation and deep merge with the defaults are all they need
+    version: 1,
+    migrate: (data) => data,
+  },
+];
+
+/**
+ * What loading the stored settings changed
+ */
+export interface SettingsMigrationReport {
+  fromVersion: number; // 0 for data saved before versioning
+  errors: string[]; // Rejected values - reset to the default
+  warnings: string[]; // Clamped values, removed stale keys, dropped profiles
+  changed: boolean; // Stored data differs from the result and should be saved
+}
+
+const PROFILE_KEYS = Object.keys(SETTINGS_SCHEMA).filter((key) => key !== 'activeProfileId' && key !== 'debug');
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate stored profiles
+ * Profile settings stay partial (older profiles keep the current value of newer settings when applied).
+ */
+function migrateProfiles(value: unknown, report: SettingsMigrationReport): SettingsProfile[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    report.errors.push(t('migration.profilesNotArray'));
+    return [];
+  }
+
+  const profiles: SettingsProfile[] = [];
+  value.forEach((profile, index) => {
+    if (!isRecord(profile) || typeof profile.id !== 'string' || typeof profile.name !== 'string') {
+      report.warnings.push(t('migration.profileDropped', { index }));
+      return;
+    }
+
+    const result = validateSettings(profile.settings, PROFILE_KEYS);
+    report.errors.push(...result.errors.map((error) => `profiles[${profile.name}].${error}`));
+    report.warnings.push(...result.warnings.map((warning) => `profiles[${profile.name}].${warning}`));
+    completeModeMaps(result.settings, DEFAULT_SETTINGS);
+    profiles.push({ id: profile.id, name: profile.name, settings: result.settings as ProfileSettings });
+  });
+  return profiles;
+}
+
+/**
+ * Upgrade stored settings to the current format
+ * Runs the pending migrations, validates and clamps every value, drops stale keys
+ * and deep merges the result over the defaults.
+ * @param data - Raw data.json contents (null on first run)
+ */
+export function migrateSettings(data: unknown): { settings: SmoothCursorSettings; report: SettingsMigrationReport } {
+  const defaults: SmoothCursorSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+  const report: SettingsMigrationReport = { fromVersion: SETTINGS_VERSION, errors: [], warnings: [], changed: false };
+
+  if (data === null || data === undefined) {
+    return { settings: defaults, report };
+  }
+  if (!isRecord(data)) {
+    report.errors.push(t('migration.dataNotObject'));
+    report.changed = true;
+    return { settings: defaults, report };
+  }
+
+  const { settingsVersion, profiles, ...rest } = data;
+  report.fromVersion = typeof settingsVersion === 'number' ? settingsVersion : 0;
+  if (report.fromVersion > SETTINGS_VERSION) {
+    // Saved by a newer plugin version - keep what this version understands
+    report.warnings.push(t('migration.newerVersion', { version: report.fromVersion, supported: SETTINGS_VERSION }));
+  }
+
+  let migrated = rest;
+  for (const migration of MIGRATIONS) {
+    if (migration.version > report.fromVersion) {
+      migrated = migration.migrate(migrated);
+    }
+  }
+
+  const result = validateSettings(migrated);
+  report.errors.push(...result.errors);
+  report.warnings.push(...result.warnings);
+
+  const settings = result.settings;
+  completeModeMaps(settings, defaults);
+  const merged: SmoothCursorSettings = Object.assign(defaults, settings);
+  merged.profiles = migrateProfiles(profiles, report);
+  if (merged.activeProfileId && !merged.profiles.some((profile) => profile.id === merged.activeProfileId)) {
+    merged.activeProfileId = '';
+  }
+
+  // Never write back over data saved by a newer version until the user changes a setting
+  report.changed = report.fromVersion <= SETTINGS_VERSION
+    && (report.fromVersion < SETTINGS_VERSION || report.errors.length > 0 || report.warnings.length > 0);
+  return { settings: merged, report };
+}
@@ -0,0 +1,352 @@
+import type {
+  AnimationInterpolation,
+  BaseVimMode,
+  CursorColorSource,
+  CursorShape,
+  ImeCursorMode,
+  LineHighlightWidth,
+  LocatorStyle,
+  ProfileSettings,
+  SmoothCursorSettings,
+  VimMode,
+} from './types';
+import { parseCubicBezier } from './interpolators';
+import { t } from './i18n';
+
+/**
+ * Identifier and current format version of exported theme files
+ */
+export const THEME_SCHEMA = 'smooth-cursor-theme';
+export const THEME_VERSION = 1;
+
+/**
+ * Settings that make up a cursor theme - colors, shapes, animation and breathing
+ */
+export const THEME_KEYS: readonly (keyof ProfileSettings)[] = [
+  // Colors
+  'cursorColorSource', 'cursorColor', 'cursorColorVariable', 'cursorColorLight', 'cursorColorDark',
+  'cursorOpacity', 'enablePerModeColors', 'cursorColors', 'cursorTextColor',
+  // Shapes
+  'cursorShapes', 'enableCursorCharacter', 'enableUnfocusedHollowCursor',
+  // Animation
+  'enableAnimation', 'animationDuration', 'animationInterpolation', 'animationCustomBezier',
+  'springStiffness', 'springDampingRatio', 'enableInsertModeAnimation', 'insertModeAnimationDuration',
+  'enableTrailEffect', 'trailLength', 'trailOpacity', 'trailMinDistance',
+  'enableSmoothScroll', 'smoothScrollDuration',
+  // Breathing
+  'enableBreathingAnimation', 'breathingAnimationDuration', 'breathingMinOpacity',
+];
+
+/**
+ * Range and step of a numeric setting - shared by the settings tab sliders and validation
+ */
+export interface NumberLimit {
+  min: number;
+  max: number;
+  step: number;
+}
+
+/**
+ * Settings that are edited with a slider
+ */
+export type NumericSettingKey =
+  | 'animationDuration'
+  | 'springStiffness'
+  | 'springDampingRatio'
+  | 'insertModeAnimationDuration'
+  | 'cursorOpacity'
+  | 'breathingAnimationDuration'
+  | 'breathingMinOpacity'
+  | 'trailLength'
+  | 'trailOpacity'
+  | 'trailMinDistance'
+  | 'smoothScrollDuration'
+  | 'selectionOverlayOpacity'
+  | 'lineHighlightOpacity'
+  | 'crosshairOpacity'
+  | 'autoLocatorMinDistance';
+
+/**
+ * Slider limits of every numeric setting
+ */
+export const NUMBER_LIMITS: Record<NumericSettingKey, NumberLimit> = {
+  animationDuration: { min: 20, max: 300, step: 10 },
+  springStiffness: { min: 50, max: 2000, step: 10 },
+  springDampingRatio: { min: 0.1, max: 1, step: 0.05 },
+  insertModeAnimationDuration: { min: 20, max: 150, step: 10 },
+  cursorOpacity: { min: 0.1, max: 1, step: 0.1 },
+  breathingAnimationDuration: { min: 0.5, max: 5, step: 0.1 },
+  breathingMinOpacity: { min: 0.1, max: 0.9, step: 0.1 },
+  trailLength: { min: 50, max: 600, step: 10 },
+  trailOpacity: { min: 0.1, max: 1, step: 0.1 },
+  trailMinDistance: { min: 10, max: 400, step: 10 },
+  smoothScrollDuration: { min: 50, max: 500, step: 10 },
+  selectionOverlayOpacity: { min: 0.1, max: 1, step: 0.05 },
+  lineHighlightOpacity: { min: 0.05, max: 0.5, step: 0.05 },
+  crosshairOpacity: { min: 0.05, max: 0.5, step: 0.05 },
+  autoLocatorMinDistance: { min: 100, max: 1500, step: 50 },
+};
+
+/**
+ * Get slider limits as setLimits() arguments
+ */
+export function getSliderLimits(key: NumericSettingKey): [number, number, number] {
+  const { min, max, step } = NUMBER_LIMITS[key];
+  return [min, max, step];
+}
+
+/**
+ * How a single setting is validated
+ */
+type FieldSpec =
+  | { type: 'boolean' }
+  | { type: 'number'; limit: NumberLimit }
+  | { type: 'color' }
+  | { type: 'string' }
+  | { type: 'bezier' }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'shapes' }
+  | { type: 'modeColors' };
+
+const BASE_MODES: readonly BaseVimMode[] = ['normal', 'insert', 'visual', 'replace', 'command'];
+const ALL_MODES: readonly VimMode[] = [...BASE_MODES, 'visual-line', 'visual-block', 'operator-pending'];
+const CURSOR_SHAPES: readonly CursorShape[] = ['block', 'line', 'underline', 'hollow'];
+const INTERPOLATIONS: readonly AnimationInterpolation[] = ['lerp', 'ease-out', 'ease-in-out', 'cubic-bezier', 'spring'];
+const COLOR_SOURCES: readonly CursorColorSource[] = ['custom', 'accent', 'text-normal', 'css-variable', 'light-dark'];
+const IME_MODES: readonly ImeCursorMode[] = ['track', 'freeze'];
+const LOCATOR_STYLES: readonly LocatorStyle[] = ['ring', 'halo'];
+const LINE_HIGHLIGHT_WIDTHS: readonly LineHighlightWidth[] = ['full', 'text'];
+
+const number = (key: NumericSettingKey): FieldSpec => ({ type: 'number', limit: NUMBER_LIMITS[key] });
+
+/**
+ * Validation rule of every setting (profiles are validated separately)
+ */
+export const SETTINGS_SCHEMA: Record<Exclude<keyof SmoothCursorSettings, 'profiles'>, FieldSpec> = {
+  enableAnimation: { type: 'boolean' },
+  animationDuration: number('animationDuration'),
+  animationInterpolation: { type: 'enum', values: INTERPOLATIONS },
+  animationCustomBezier: { type: 'bezier' },
+  springStiffness: number('springStiffness'),
+  springDampingRatio: number('springDampingRatio'),
+  cursorColor: { type: 'color' },
+  cursorOpacity: number('cursorOpacity'),
+  cursorShapes: { type: 'shapes' },
+  enableCursorCharacter: { type: 'boolean' },
+  cursorTextColor: { type: 'color' },
+  enableUnfocusedHollowCursor: { type: 'boolean' },
+  cursorColorSource: { type: 'enum', values: COLOR_SOURCES },
+  cursorColorVariable: { type: 'string' },
+  cursorColorLight: { type: 'color' },
+  cursorColorDark: { type: 'color' },
+  enablePerModeColors: { type: 'boolean' },
+  cursorColors: { type: 'modeColors' },
+  debug: { type: 'boolean' },
+  enableInsertModeAnimation: { type: 'boolean' },
+  insertModeAnimationDuration: number('insertModeAnimationDuration'),
+  imeCursorMode: { type: 'enum', values: IME_MODES },
+  useTransformAnimation: { type: 'boolean' },
+  enableBreathingAnimation: { type: 'boolean' },
+  breathingAnimationDuration: number('breathingAnimationDuration'),
+  breathingMinOpacity: number('breathingMinOpacity'),
+  enableSelectionOverlay: { type: 'boolean' },
+  enableSmoothScroll: { type: 'boolean' },
+  smoothScrollDuration: number('smoothScrollDuration'),
+  selectionOverlayColor: { type: 'color' },
+  selectionOverlayOpacity: number('selectionOverlayOpacity'),
+  enableLineHighlight: { type: 'boolean' },
+  enableGutterHighlight: { type: 'boolean' },
+  lineHighlightColor: { type: 'color' },
+  lineHighlightOpacity: number('lineHighlightOpacity'),
+  lineHighlightWidth: { type: 'enum', values: LINE_HIGHLIGHT_WIDTHS },
+  enableInputCursor: { type: 'boolean' },
+  respectReducedMotion: { type: 'boolean' },
+  enableHighContrastCursor: { type: 'boolean' },
+  enableCrosshair: { type: 'boolean' },
+  crosshairOpacity: number('crosshairOpacity'),
+  locatorStyle: { type: 'enum', values: LOCATOR_STYLES },
+  enableAutoLocator: { type: 'boolean' },
+  autoLocatorMinDistance: number('autoLocatorMinDistance'),
+  autoLocatorOnAttach: { type: 'boolean' },
+  enableTrailEffect: { type: 'boolean' },
+  trailLength: number('trailLength'),
+  trailOpacity: number('trailOpacity'),
+  trailMinDistance: number('trailMinDistance'),
+  showStatusBarMode: { type: 'boolean' },
+  showStatusBarPendingInput: { type: 'boolean' },
+  activeProfileId: { type: 'string' },
+};
+
+/**
+ * Result of validating untrusted settings (imported theme, data.json)
+ */
+export interface SettingsValidationResult {
+  settings: Partial<SmoothCursorSettings>;
+  errors: string[]; // Rejected fields - the current value is kept
+  warnings: string[]; // Accepted after clamping or dropping parts of the value
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Clamp a number to its limits
+ * @returns Clamped value, or null when the value is not a finite number
+ */
+function clampNumber(value: unknown, limit: NumberLimit): number | null {
+  if (typeof value !== 'number' || !isFinite(value)) return null;
+  return Math.min(limit.max, Math.max(limit.min, value));
+}
+
+/**
+ * Validate a single field
+ * @returns Validated value, or undefined when the field is rejected (error pushed)
+ */
+function validateField(key: string, spec: FieldSpec, value: unknown, result: SettingsValidationResult): unknown {
+  switch (spec.type) {
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      result.errors.push(t('validation.boolean', { key }));
+      return undefined;
+
+    case 'number': {
+      const clamped = clampNumber(value, spec.limit);
+      if (clamped === null) {
+        result.errors.push(t('validation.number', { key }));
+        return undefined;
+      }
+      if (clamped !== value) {
+        result.warnings.push(t('validation.clamped', { key, value: String(value), min: spec.limit.min, max: spec.limit.max, clamped }));
+      }
+      return clamped;
+    }
+
+    case 'color':
+      if (typeof value === 'string' && HEX_COLOR.test(value.trim())) return value.trim();
+      result.errors.push(t('validation.color', { key }));
+      return undefined;
+
+    case 'string':
+      if (typeof value === 'string') return value;
+      result.errors.push(t('validation.string', { key }));
+      return undefined;
+
+    case 'bezier':
+      if (typeof value === 'string' && parseCubicBezier(value)) return value;
+      result.errors.push(t('validation.bezier', { key }));
+      return undefined;
+
+    case 'enum':
+      if (typeof value === 'string' && spec.values.includes(value)) return value;
+      result.errors.push(t('validation.enum', { key, values: spec.values.join(' / ') }));
+      return undefined;
+
+    case 'shapes':
+      return validateShapes(key, value, result);
+
+    case 'modeColors':
+      return validateModeColors(key, value, result);
+  }
+}
+
+function validateShapes(key: string, value: unknown, result: SettingsValidationResult): unknown {
+  if (!isRecord(value)) {
+    result.errors.push(t('validation.object', { key }));
+    return undefined;
+  }
+
+  const shapes: Record<string, CursorShape> = {};
+  for (const mode of ALL_MODES) {
+    const shape = value[mode];
+    if (shape === undefined) continue;
+    if (typeof shape === 'string' && (CURSOR_SHAPES as readonly string[]).includes(shape)) {
+      shapes[mode] = shape as CursorShape;
+    } else {
+      result.warnings.push(t('validation.enumIgnored', { key: `${key}.${mode}`, values: CURSOR_SHAPES.join(' / ') }));
+    }
+  }
+  return shapes;
+}
+
+function validateModeColors(key: string, value: unknown, result: SettingsValidationResult): unknown {
+  if (!isRecord(value)) {
+    result.errors.push(t('validation.object', { key }));
+    return undefined;
+  }
+
+  const colors: Record<string, { color: string; opacity: number }> = {};
+  for (const mode of ALL_MODES) {
+    const modeColor = value[mode];
+    if (modeColor === undefined) continue;
+
+    const color = isRecord(modeColor) && typeof modeColor.color === 'string' ? modeColor.color.trim() : '';
+    const opacity = isRecord(modeColor) ? clampNumber(modeColor.opacity, NUMBER_LIMITS.cursorOpacity) : null;
+    if (!HEX_COLOR.test(color) || opacity === null) {
+      result.warnings.push(t('validation.modeColorIgnored', { key: `${key}.${mode}` }));
+      continue;
+    }
+    if (isRecord(modeColor) && opacity !== modeColor.opacity) {
+      result.warnings.push(t('validation.adjusted', { key: `${key}.${mode}.opacity`, value: opacity }));
+    }
+    colors[mode] = { color, opacity };
+  }
+  return colors;
+}
+
+/**
+ * Validate untrusted settings values
+ * Unknown keys are reported and ignored; numbers are clamped to the slider limits.
+ * Partial shape/color maps are returned as-is - callers merge them over the current values.
+ * @param input - Parsed JSON object
+ * @param allowedKeys - Keys accepted from the input (defaults to every schema key)
+ */
+export function validateSettings(
+  input: unknown,
+  allowedKeys: readonly string[] = Object.keys(SETTINGS_SCHEMA)
+): SettingsValidationResult {
+  const result: SettingsValidationResult = { settings: {}, errors: [], warnings: [] };
+  if (!isRecord(input)) {
+    result.errors.push(t('validation.notObject'));
+    return result;
+  }
+
+  const settings = result.settings as Record<string, unknown>;
+  for (const [key, value] of Object.entries(input)) {
+    if (!allowedKeys.includes(key) || !(key in SETTINGS_SCHEMA)) {
+      result.warnings.push(t('validation.unknownKey', { key }));
+      continue;
+    }
+    const validated = validateField(key, SETTINGS_SCHEMA[key as keyof typeof SETTINGS_SCHEMA], value, result);
+    if (validated !== undefined) {
+      settings[key] = validated;
+    }
+  }
+  return result;
+}
+
+/**
+ * Fill base modes missing from validated (possibly partial) shape and color maps
+ * Sub-mode entries are kept as given - unset sub-modes follow their parent mode.
+ * @param patch - Validated settings, modified in place
+ * @param base - Settings the missing base modes are copied from
+ */
+export function completeModeMaps(patch: Partial<SmoothCursorSettings>, base: SmoothCursorSettings): void {
+  if (patch.cursorShapes) {
+    const { normal, insert, visual, replace, command } = base.cursorShapes;
+    patch.cursorShapes = Object.assign({ normal, insert, visual, replace, command }, patch.cursorShapes);
+  }
+  if (patch.cursorColors) {
+    // Colors are objects - copy them so the patch never shares entries with `base`
+    const { normal, insert, visual, replace, command } = base.cursorColors;
+    patch.cursorColors = Object.assign({
+      normal: { ...normal },
+      insert: { ...insert },
+      visual: { ...visual },
+      replace: { ...replace },
+      command: { ...command },
+    }, patch.cursorColors);
+  }
+}
@@ -1,25 +1,58 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import type SmoothCursorPlugin from './main';
-import type { CursorShape, VimMode } from './types';
+import type { AnimationInterpolation, CursorColorSource, ImeCursorMode, LineHighlightWidth, LocatorStyle, CursorModeColor, CursorShape, VimMode } from './types';
+import { AnimationPreview } from './core/animation-preview';
+import { parseCubicBezier } from './interpolators';
+import { getCursorColorForMode, getParentMode } from './cursor-utils';
+import { getSliderLimits } from './settings-schema';
+import { ThemeJsonModal } from './core/theme-manager';
+import { t } from './i18n';
 
 export class SmoothCursorSettingTab extends PluginSettingTab {
   plugin: SmoothCursorPlugin;
+  private animationPreview: AnimationPreview;
 
   constructor(app: App, plugin: SmoothCursorPlugin) {
     super(app, plugin);
     this.plugin = plugin;
+    this.animationPreview = new AnimationPreview(plugin);
+  }
+
+  hide(): void {
+    this.animationPreview.destroy();
   }
 
   display(): void {
     const { containerEl } = this;
+    this.animationPreview.destroy();
     containerEl.empty();
 
-    containerEl.createEl('h2', { text: 'Smooth Cursor - 平滑光标设置' });
+    containerEl.createEl('h2', { text: t('settings.title') });
+
+    this.displayProfiles(containerEl);
+    this.displayThemes(containerEl);
+
+    const modeNames: Record<VimMode, string> = {
+      normal: t('mode.normal'),
+      insert: t('mode.insert'),
+      visual: t('mode.visual'),
+      replace: t('mode.replace'),
+      command: t('mode.command'),
+      'visual-line': t('mode.visual-line'),
+      'visual-block': t('mode.visual-block'),
+      'operator-pending': t('mode.operator-pending'),
+    };
+
+    // Sub-modes (visual-line, visual-block, operator-pending) follow their parent mode when unset
+    const modeKeys: VimMode[] = [
+      'normal', 'insert', 'visual', 'replace', 'command',
+      'visual-line', 'visual-block', 'operator-pending',
+    ];
 
     // Animation toggle
     new Setting(containerEl)
-      .setName('启用平滑动画')
-      .setDesc('开启光标移动时的平滑过渡动画')
+      .setName(t('settings.enableAnimation.name'))
+      .setDesc(t('settings.enableAnimation.desc'))
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.enableAnimation)
@@ -31,11 +64,11 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
 
     // Animation duration
     new Setting(containerEl)
-      .setName('动画时长')
-      .setDesc('光标移动动画的持续时间（毫秒）')
+      .setName(t('settings.animationDuration.name'))
+      .setDesc(t('settings.animationDuration.desc'))
       .addSlider((slider) =>
         slider
-          .setLimits(20, 300, 10)
+          .setLimits(...getSliderLimits('animationDuration'))
           .setValue(this.plugin.settings.animationDuration)
           .setDynamicTooltip()
           .onChange(async (value) => {
@@ -44,13 +77,91 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
 
+    // Interpolation mode
+    const interpolationOptions: Record<AnimationInterpolation, string> = {
+      'lerp': t('settings.interpolation.lerp'),
+      'ease-out': t('settings.interpolation.ease-out'),
+      'ease-in-out': t('settings.interpolation.ease-in-out'),
+      'cubic-bezier': t('settings.interpolation.cubic-bezier'),
+      'spring': t('settings.interpolation.spring'),
+    };
+
+    new Setting(containerEl)
+      .setName(t('settings.interpolation.name'))
+      .setDesc(t('settings.interpolation.desc'))
+      .addDropdown((dropdown) => {
+        for (const [value, name] of Object.entries(interpolationOptions)) {
+          dropdown.addOption(value, name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.animationInterpolation)
+          .onChange(async (value) => {
+            this.plugin.settings.animationInterpolation = value as AnimationInterpolation;
+            await this.plugin.saveSettings();
+            // Re-render to show the settings of the selected mode
+            this.display();
+          });
+      });
+
+    if (this.plugin.settings.animationInterpolation === 'cubic-bezier') {
+      // Custom bezier control points
+      new Setting(containerEl)
+        .setName(t('settings.bezier.name'))
+        .setDesc(t('settings.bezier.desc'))
+        .addText((text) =>
+          text
+            .setPlaceholder('0.25, 0.1, 0.25, 1')
+            .setValue(this.plugin.settings.animationCustomBezier)
+            .onChange(async (value) => {
+              if (!parseCubicBezier(value)) return;
+              this.plugin.settings.animationCustomBezier = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    if (this.plugin.settings.animationInterpolation === 'spring') {
+      // Spring stiffness
+      new Setting(containerEl)
+        .setName(t('settings.springStiffness.name'))
+        .setDesc(t('settings.springStiffness.desc'))
+        .addSlider((slider) =>
+          slider
+            .setLimits(...getSliderLimits('springStiffness'))
+            .setValue(this.plugin.settings.springStiffness)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.springStiffness = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      // Spring damping ratio
+      new Setting(containerEl)
+        .setName(t('settings.springDamping.name'))
+        .setDesc(t('settings.springDamping.desc'))
+        .addSlider((slider) =>
+          slider
+            .setLimits(...getSliderLimits('springDampingRatio'))
+            .setValue(this.plugin.settings.springDampingRatio)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.springDampingRatio = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Live preview of the current animation settings
+    this.animationPreview.mount(containerEl);
+
     // Insert mode animation section
-    containerEl.createEl('h3', { text: '输入模式动画' });
+    containerEl.createEl('h3', { text: t('settings.insertMode.heading') });
 
     // Enable insert mode animation
     new Setting(containerEl)
-      .setName('启用输入模式平滑动画')
-      .setDesc('在输入文字时启用光标平滑移动效果')
+      .setName(t('settings.enableInsertAnimation.name'))
+      .setDesc(t('settings.enableInsertAnimation.desc'))
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.enableInsertModeAnimation)
@@ -62,11 +173,11 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
 
     // Insert mode animation duration
     new Setting(containerEl)
-      .setName('输入模式动画时长')
-      .setDesc('输入时光标移动动画的持续时间（毫秒），建议设置较短以保持流畅')
+      .setName(t('settings.insertAnimationDuration.name'))
+      .setDesc(t('settings.insertAnimationDuration.desc'))
       .addSlider((slider) =>
         slider
-          .setLimits(20, 150, 10)
+          .setLimits(...getSliderLimits('insertModeAnimationDuration'))
           .setValue(this.plugin.settings.insertModeAnimationDuration)
           .setDynamicTooltip()
           .onChange(async (value) => {
@@ -75,10 +186,31 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
 
+    // IME composition behaviour
+    const imeOptions: Record<ImeCursorMode, string> = {
+      'track': t('settings.ime.track'),
+      'freeze': t('settings.ime.freeze'),
+    };
+
+    new Setting(containerEl)
+      .setName(t('settings.ime.name'))
+      .setDesc(t('settings.ime.desc'))
+      .addDropdown((dropdown) => {
+        for (const [value, name] of Object.entries(imeOptions)) {
+          dropdown.addOption(value, name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.imeCursorMode)
+          .onChange(async (value) => {
+            this.plugin.settings.imeCursorMode = value as ImeCursorMode;
+            await this.plugin.saveSettings();
+          });
+      });
+
     // Transform animation mode
     new Setting(containerEl)
-      .setName('使用 Transform 动画')
-      .setDesc('使用 CSS transform 进行动画（GPU加速更流畅，但光标可能略显模糊）')
+      .setName(t('settings.transform.name'))
+      .setDesc(t('settings.transform.desc'))
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.useTransformAnimation)
@@ -88,10 +220,39 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
 
-    // Cursor color
+    // Cursor color source
+    const colorSourceOptions: Record<CursorColorSource, string> = {
+      'custom': t('settings.colorSource.custom'),
+      'accent': t('settings.colorSource.accent'),
+      'text-normal': t('settings.colorSource.text-normal'),
+      'css-variable': t('settings.colorSource.css-variable'),
+      'light-dark': t('settings.colorSource.light-dark'),
+    };
+
+    new Setting(containerEl)
+      .setName(t('settings.colorSource.name'))
+      .setDesc(t('settings.colorSource.desc'))
+      .addDropdown((dropdown) => {
+        for (const [value, name] of Object.entries(colorSourceOptions)) {
+          dropdown.addOption(value, name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.cursorColorSource)
+          .onChange(async (value) => {
+            this.plugin.settings.cursorColorSource = value as CursorColorSource;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+            // Re-render to show the settings of the selected source
+            this.display();
+          });
+      });
+
+    const colorSource = this.plugin.settings.cursorColorSource;
+
+    // Cursor color - also the fallback when a theme variable is not defined
     new Setting(containerEl)
-      .setName('光标颜色')
-      .setDesc('自定义光标的颜色')
+      .setName(colorSource === 'custom' ? t('settings.cursorColor.name') : t('settings.fallbackColor.name'))
+      .setDesc(colorSource === 'custom' ? t('settings.cursorColor.desc') : t('settings.fallbackColor.desc'))
       .addColorPicker((colorPicker) =>
         colorPicker
           .setValue(this.plugin.settings.cursorColor)
@@ -102,13 +263,57 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
 
+    if (colorSource === 'css-variable') {
+      new Setting(containerEl)
+        .setName(t('settings.cssVariable.name'))
+        .setDesc(t('settings.cssVariable.desc'))
+        .addText((text) =>
+          text
+            .setPlaceholder('--text-accent')
+            .setValue(this.plugin.settings.cursorColorVariable)
+            .onChange(async (value) => {
+              this.plugin.settings.cursorColorVariable = value.trim();
+              await this.plugin.saveSettings();
+              this.plugin.updateCursorStyle();
+            })
+        );
+    }
+
+    if (colorSource === 'light-dark') {
+      new Setting(containerEl)
+        .setName(t('settings.lightColor.name'))
+        .setDesc(t('settings.lightColor.desc'))
+        .addColorPicker((colorPicker) =>
+          colorPicker
+            .setValue(this.plugin.settings.cursorColorLight)
+            .onChange(async (value) => {
+              this.plugin.settings.cursorColorLight = value;
+              await this.plugin.saveSettings();
+              this.plugin.updateCursorStyle();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.darkColor.name'))
+        .setDesc(t('settings.darkColor.desc'))
+        .addColorPicker((colorPicker) =>
+          colorPicker
+            .setValue(this.plugin.settings.cursorColorDark)
+            .onChange(async (value) => {
+              this.plugin.settings.cursorColorDark = value;
+              await this.plugin.saveSettings();
+              this.plugin.updateCursorStyle();
+            })
+        );
+    }
+
     // Cursor opacity
     new Setting(containerEl)
-      .setName('光标透明度')
-      .setDesc('光标的不透明度（0-1）')
+      .setName(t('settings.cursorOpacity.name'))
+      .setDesc(t('settings.cursorOpacity.desc'))
       .addSlider((slider) =>
         slider
-          .setLimits(0.1, 1, 0.1)
+          .setLimits(...getSliderLimits('cursorOpacity'))
           .setValue(this.plugin.settings.cursorOpacity)
           .setDynamicTooltip()
           .onChange(async (value) => {
@@ -118,13 +323,102 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
 
+    // Character under the block cursor
+    new Setting(containerEl)
+      .setName(t('settings.cursorCharacter.name'))
+      .setDesc(t('settings.cursorCharacter.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableCursorCharacter)
+          .onChange(async (value) => {
+            this.plugin.settings.enableCursorCharacter = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.enableCursorCharacter) {
+      new Setting(containerEl)
+        .setName(t('settings.cursorTextColor.name'))
+        .setDesc(t('settings.cursorTextColor.desc'))
+        .addColorPicker((colorPicker) =>
+          colorPicker
+            .setValue(this.plugin.settings.cursorTextColor)
+            .onChange(async (value) => {
+              this.plugin.settings.cursorTextColor = value;
+              await this.plugin.saveSettings();
+              this.plugin.updateCursorStyle();
+            })
+        );
+    }
+
+    // Per-mode colors
+    new Setting(containerEl)
+      .setName(t('settings.perModeColors.name'))
+      .setDesc(t('settings.perModeColors.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enablePerModeColors)
+          .onChange(async (value) => {
+            this.plugin.settings.enablePerModeColors = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+            // Re-render to show or hide per-mode rows
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.enablePerModeColors) {
+      for (const mode of modeKeys) {
+        const label = modeNames[mode];
+        const parentLabel = modeNames[getParentMode(mode)];
+        const isInherited = !this.plugin.settings.cursorColors[mode];
+        const modeColor = getCursorColorForMode(this.plugin.settings, mode);
+        const setting = new Setting(containerEl)
+          .setName(label)
+          .setDesc(isInherited ? t('settings.modeColor.inheritedDesc', { parent: parentLabel }) : t('settings.modeColor.desc', { mode: label }))
+          .addColorPicker((colorPicker) =>
+            colorPicker
+              .setValue(modeColor.color)
+              .onChange(async (value) => {
+                await this.updateModeColor(mode, { color: value });
+              })
+          )
+          .addSlider((slider) =>
+            slider
+              .setLimits(...getSliderLimits('cursorOpacity'))
+              .setValue(modeColor.opacity)
+              .setDynamicTooltip()
+              .onChange(async (value) => {
+                await this.updateModeColor(mode, { opacity: value });
+              })
+          );
+
+        // Sub-modes can be reset to follow their parent mode again
+        if (getParentMode(mode) !== mode && !isInherited) {
+          setting.addExtraButton((button) =>
+            button
+              .setIcon('reset')
+              .setTooltip(t('settings.followParent', { parent: parentLabel }))
+              .onClick(async () => {
+                delete this.plugin.settings.cursorColors[mode];
+                await this.plugin.saveSettings();
+                this.plugin.updateCursorStyle();
+                this.display();
+              })
+          );
+        }
+      }
+    }
+
     // Breathing animation section
-    containerEl.createEl('h3', { text: '呼吸动画' });
+    containerEl.createEl('h3', { text: t('settings.breathing.heading') });
 
     // Enable breathing animation
     new Setting(containerEl)
-      .setName('启用呼吸动画')
-      .setDesc('为光标添加平滑的呼吸效果（在所有模式下生效）')
+      .setName(t('settings.enableBreathing.name'))
+      .setDesc(t('settings.enableBreathing.desc'))
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.enableBreathingAnimation)
@@ -137,11 +431,11 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
 
     // Breathing animation duration
     new Setting(containerEl)
-      .setName('呼吸动画时长')
-      .setDesc('呼吸动画一个完整周期的时长（秒）')
+      .setName(t('settings.breathingDuration.name'))
+      .setDesc(t('settings.breathingDuration.desc'))
       .addSlider((slider) =>
         slider
-          .setLimits(0.5, 5, 0.1)
+          .setLimits(...getSliderLimits('breathingAnimationDuration'))
           .setValue(this.plugin.settings.breathingAnimationDuration)
           .setDynamicTooltip()
           .onChange(async (value) => {
@@ -153,11 +447,11 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
 
     // Breathing minimum opacity
     new Setting(containerEl)
-      .setName('呼吸最小透明度')
-      .setDesc('呼吸动画时光标淡出到的最小透明度（0-1）')
+      .setName(t('settings.breathingMinOpacity.name'))
+      .setDesc(t('settings.breathingMinOpacity.desc'))
       .addSlider((slider) =>
         slider
-          .setLimits(0.1, 0.9, 0.1)
+          .setLimits(...getSliderLimits('breathingMinOpacity'))
           .setValue(this.plugin.settings.breathingMinOpacity)
           .setDynamicTooltip()
           .onChange(async (value) => {
@@ -167,46 +461,430 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
 
-    // Cursor shapes section
-    containerEl.createEl('h3', { text: '各模式光标形状' });
+    // Trail effect section
+    containerEl.createEl('h3', { text: t('settings.trail.heading') });
+
+    // Enable trail effect
+    new Setting(containerEl)
+      .setName(t('settings.enableTrail.name'))
+      .setDesc(t('settings.enableTrail.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableTrailEffect)
+          .onChange(async (value) => {
+            this.plugin.settings.enableTrailEffect = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    // Trail length
+    new Setting(containerEl)
+      .setName(t('settings.trailLength.name'))
+      .setDesc(t('settings.trailLength.desc'))
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('trailLength'))
+          .setValue(this.plugin.settings.trailLength)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.trailLength = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Trail opacity
+    new Setting(containerEl)
+      .setName(t('settings.trailOpacity.name'))
+      .setDesc(t('settings.trailOpacity.desc'))
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('trailOpacity'))
+          .setValue(this.plugin.settings.trailOpacity)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.trailOpacity = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Trail minimum distance
+    new Setting(containerEl)
+      .setName(t('settings.trailMinDistance.name'))
+      .setDesc(t('settings.trailMinDistance.desc'))
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('trailMinDistance'))
+          .setValue(this.plugin.settings.trailMinDistance)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.trailMinDistance = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Smooth scrolling section
+    containerEl.createEl('h3', { text: t('settings.smoothScroll.heading') });
+
+    new Setting(containerEl)
+      .setName(t('settings.enableSmoothScroll.name'))
+      .setDesc(t('settings.enableSmoothScroll.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableSmoothScroll)
+          .onChange(async (value) => {
+            this.plugin.settings.enableSmoothScroll = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.smoothScrollDuration.name'))
+      .setDesc(t('settings.smoothScrollDuration.desc'))
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('smoothScrollDuration'))
+          .setValue(this.plugin.settings.smoothScrollDuration)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.smoothScrollDuration = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Selection overlay section
+    containerEl.createEl('h3', { text: t('settings.selection.heading') });
+
+    // Enable selection overlay
+    new Setting(containerEl)
+      .setName(t('settings.enableSelection.name'))
+      .setDesc(t('settings.enableSelection.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableSelectionOverlay)
+          .onChange(async (value) => {
+            this.plugin.settings.enableSelectionOverlay = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
 
-    const shapeOptions: Record<string, CursorShape> = {
-      '块状': 'block',
-      '竖线': 'line',
-      '下划线': 'underline',
+    // Selection overlay color
+    new Setting(containerEl)
+      .setName(t('settings.selectionColor.name'))
+      .setDesc(t('settings.selectionColor.desc'))
+      .addColorPicker((colorPicker) =>
+        colorPicker
+          .setValue(this.plugin.settings.selectionOverlayColor)
+          .onChange(async (value) => {
+            this.plugin.settings.selectionOverlayColor = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('selectionOverlayOpacity'))
+          .setValue(this.plugin.settings.selectionOverlayOpacity)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.selectionOverlayOpacity = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    // Line highlight section
+    containerEl.createEl('h3', { text: t('settings.lineHighlight.heading') });
+
+    new Setting(containerEl)
+      .setName(t('settings.enableLineHighlight.name'))
+      .setDesc(t('settings.enableLineHighlight.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableLineHighlight)
+          .onChange(async (value) => {
+            this.plugin.settings.enableLineHighlight = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.gutterHighlight.name'))
+      .setDesc(t('settings.gutterHighlight.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableGutterHighlight)
+          .onChange(async (value) => {
+            this.plugin.settings.enableGutterHighlight = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.lineHighlightColor.name'))
+      .setDesc(t('settings.lineHighlightColor.desc'))
+      .addColorPicker((colorPicker) =>
+        colorPicker
+          .setValue(this.plugin.settings.lineHighlightColor)
+          .onChange(async (value) => {
+            this.plugin.settings.lineHighlightColor = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('lineHighlightOpacity'))
+          .setValue(this.plugin.settings.lineHighlightOpacity)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.lineHighlightOpacity = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    const lineHighlightWidthOptions: Record<LineHighlightWidth, string> = {
+      'full': t('settings.lineHighlightWidth.full'),
+      'text': t('settings.lineHighlightWidth.text'),
     };
 
-    const modeNames: Record<VimMode, string> = {
-      normal: 'Normal 模式',
-      insert: 'Insert 模式',
-      visual: 'Visual 模式',
-      replace: 'Replace 模式',
-      command: 'Command 模式',
+    new Setting(containerEl)
+      .setName(t('settings.lineHighlightWidth.name'))
+      .setDesc(t('settings.lineHighlightWidth.desc'))
+      .addDropdown((dropdown) => {
+        for (const [value, name] of Object.entries(lineHighlightWidthOptions)) {
+          dropdown.addOption(value, name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.lineHighlightWidth)
+          .onChange(async (value) => {
+            this.plugin.settings.lineHighlightWidth = value as LineHighlightWidth;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          });
+      });
+
+    // Input field section
+    containerEl.createEl('h3', { text: t('settings.inputCursor.heading') });
+
+    new Setting(containerEl)
+      .setName(t('settings.enableInputCursor.name'))
+      .setDesc(t('settings.enableInputCursor.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableInputCursor)
+          .onChange(async (value) => {
+            this.plugin.settings.enableInputCursor = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    // Accessibility section
+    containerEl.createEl('h3', { text: t('settings.accessibility.heading') });
+
+    // Reduced motion
+    new Setting(containerEl)
+      .setName(t('settings.reducedMotion.name'))
+      .setDesc(t('settings.reducedMotion.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.respectReducedMotion)
+          .onChange(async (value) => {
+            this.plugin.settings.respectReducedMotion = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    // High-contrast cursor
+    new Setting(containerEl)
+      .setName(t('settings.highContrast.name'))
+      .setDesc(t('settings.highContrast.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableHighContrastCursor)
+          .onChange(async (value) => {
+            this.plugin.settings.enableHighContrastCursor = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    // Crosshair
+    new Setting(containerEl)
+      .setName(t('settings.crosshair.name'))
+      .setDesc(t('settings.crosshair.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableCrosshair)
+          .onChange(async (value) => {
+            this.plugin.settings.enableCrosshair = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('crosshairOpacity'))
+          .setValue(this.plugin.settings.crosshairOpacity)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.crosshairOpacity = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    // Cursor locator style
+    const locatorStyleOptions: Record<LocatorStyle, string> = {
+      'ring': t('settings.locatorStyle.ring'),
+      'halo': t('settings.locatorStyle.halo'),
+    };
+
+    new Setting(containerEl)
+      .setName(t('settings.locatorStyle.name'))
+      .setDesc(t('settings.locatorStyle.desc'))
+      .addDropdown((dropdown) => {
+        for (const [value, name] of Object.entries(locatorStyleOptions)) {
+          dropdown.addOption(value, name);
+        }
+        dropdown
+          .setValue(this.plugin.settings.locatorStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.locatorStyle = value as LocatorStyle;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    // Automatic locator after long jumps
+    new Setting(containerEl)
+      .setName(t('settings.autoLocator.name'))
+      .setDesc(t('settings.autoLocator.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableAutoLocator)
+          .onChange(async (value) => {
+            this.plugin.settings.enableAutoLocator = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.autoLocatorDistance.name'))
+      .setDesc(t('settings.autoLocatorDistance.desc'))
+      .addSlider((slider) =>
+        slider
+          .setLimits(...getSliderLimits('autoLocatorMinDistance'))
+          .setValue(this.plugin.settings.autoLocatorMinDistance)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.autoLocatorMinDistance = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Automatic locator when switching editors
+    new Setting(containerEl)
+      .setName(t('settings.autoLocatorOnAttach.name'))
+      .setDesc(t('settings.autoLocatorOnAttach.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.autoLocatorOnAttach)
+          .onChange(async (value) => {
+            this.plugin.settings.autoLocatorOnAttach = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // Cursor shapes section
+    containerEl.createEl('h3', { text: t('settings.shapes.heading') });
+
+    // Unfocused hollow cursor
+    new Setting(containerEl)
+      .setName(t('settings.unfocusedHollow.name'))
+      .setDesc(t('settings.unfocusedHollow.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.enableUnfocusedHollowCursor)
+          .onChange(async (value) => {
+            this.plugin.settings.enableUnfocusedHollowCursor = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    const shapeOptions: Record<CursorShape, string> = {
+      'block': t('settings.shape.block'),
+      'line': t('settings.shape.line'),
+      'underline': t('settings.shape.underline'),
+      'hollow': t('settings.shape.hollow'),
     };
 
-    const modeKeys: VimMode[] = ['normal', 'insert', 'visual', 'replace', 'command'];
     for (const mode of modeKeys) {
       const label = modeNames[mode];
+      const isSubMode = getParentMode(mode) !== mode;
       new Setting(containerEl)
         .setName(label)
-        .setDesc(`${label}下的光标形状`)
+        .setDesc(t('settings.modeShape.desc', { mode: label }))
         .addDropdown((dropdown) => {
-          for (const [name, value] of Object.entries(shapeOptions)) {
+          // Empty value means "follow parent mode"
+          if (isSubMode) {
+            dropdown.addOption('', t('settings.followParent', { parent: modeNames[getParentMode(mode)] }));
+          }
+          for (const [value, name] of Object.entries(shapeOptions)) {
             dropdown.addOption(value, name);
           }
           dropdown
-            .setValue(this.plugin.settings.cursorShapes[mode])
+            .setValue(this.plugin.settings.cursorShapes[mode] ?? '')
             .onChange(async (value) => {
-              this.plugin.settings.cursorShapes[mode] = value as CursorShape;
+              if (value) {
+                this.plugin.settings.cursorShapes[mode] = value as CursorShape;
+              } else {
+                delete this.plugin.settings.cursorShapes[mode];
+              }
               await this.plugin.saveSettings();
             });
         });
     }
 
+    // Status bar section
+    containerEl.createEl('h3', { text: t('settings.statusBar.heading') });
+
+    new Setting(containerEl)
+      .setName(t('settings.showStatusBarMode.name'))
+      .setDesc(t('settings.showStatusBarMode.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showStatusBarMode)
+          .onChange(async (value) => {
+            this.plugin.settings.showStatusBarMode = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.showStatusBarPending.name'))
+      .setDesc(t('settings.showStatusBarPending.desc'))
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showStatusBarPendingInput)
+          .onChange(async (value) => {
+            this.plugin.settings.showStatusBarPendingInput = value;
+            await this.plugin.saveSettings();
+            this.plugin.updateCursorStyle();
+          })
+      );
+
     // Debug mode
     new Setting(containerEl)
-      .setName('调试模式')
-      .setDesc('在控制台输出调试信息')
+      .setName(t('settings.debug.name'))
+      .setDesc(t('settings.debug.desc'))
       .addToggle((toggle) =>
         toggle
           .setValue(this.plugin.settings.debug)
@@ -216,5 +894,126 @@ export class SmoothCursorSettingTab extends PluginSettingTab {
           })
       );
   }
-}
 
+  /**
+   * Update color or opacity of a mode
+   * Sub-modes that inherit their parent's color get their own copy on first change
+   */
+  private async updateModeColor(mode: VimMode, patch: Partial<CursorModeColor>) {
+    const current = getCursorColorForMode(this.plugin.settings, mode);
+    this.plugin.settings.cursorColors[mode] = { ...current, ...patch };
+    await this.plugin.saveSettings();
+    this.plugin.updateCursorStyle();
+  }
+
+  /**
+   * Themes section - built-in presets and JSON import/export
+   */
+  private displayThemes(containerEl: HTMLElement) {
+    const themeManager = this.plugin.themeManager;
+    containerEl.createEl('h3', { text: t('settings.themes.heading') });
+
+    const presets = themeManager.getBuiltInThemes();
+    let presetIndex = 0;
+    new Setting(containerEl)
+      .setName(t('settings.builtInThemes.name'))
+      .setDesc(t('settings.builtInThemes.desc'))
+      .addDropdown((dropdown) => {
+        presets.forEach((theme, index) => dropdown.addOption(String(index), theme.name));
+        dropdown
+          .setValue(String(presetIndex))
+          .onChange((value) => {
+            presetIndex = Number(value);
+          });
+      })
+      .addButton((button) =>
+        button
+          .setButtonText(t('settings.apply'))
+          .onClick(async () => {
+            await themeManager.applyTheme(presets[presetIndex]);
+            this.display();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(t('settings.importExport.name'))
+      .setDesc(t('settings.importExport.desc'))
+      .addButton((button) =>
+        button
+          .setButtonText(t('settings.exportTheme'))
+          .onClick(() => {
+            new ThemeJsonModal(this.plugin, 'export').open();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('settings.importTheme'))
+          .onClick(() => {
+            new ThemeJsonModal(this.plugin, 'import', () => this.display()).open();
+          })
+      );
+  }
+
+  /**
+   * Profiles section - save, apply, overwrite and delete named settings snapshots
+   */
+  private displayProfiles(containerEl: HTMLElement) {
+    const profileManager = this.plugin.profileManager;
+    containerEl.createEl('h3', { text: t('settings.profiles.heading') });
+
+    let newProfileName = '';
+    new Setting(containerEl)
+      .setName(t('settings.saveProfile.name'))
+      .setDesc(t('settings.saveProfile.desc'))
+      .addText((text) =>
+        text
+          .setPlaceholder(t('settings.saveProfile.placeholder'))
+          .onChange((value) => {
+            newProfileName = value.trim();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(t('settings.save'))
+          .setCta()
+          .onClick(async () => {
+            if (!newProfileName) return;
+            await profileManager.saveCurrentAs(newProfileName);
+            this.display();
+          })
+      );
+
+    const activeProfile = profileManager.getActiveProfile();
+    for (const profile of profileManager.getProfiles()) {
+      const isActive = profile.id === activeProfile?.id;
+      new Setting(containerEl)
+        .setName(isActive ? t('profile.current', { name: profile.name }) : profile.name)
+        .addButton((button) =>
+          button
+            .setButtonText(t('settings.apply'))
+            .setDisabled(isActive)
+            .onClick(async () => {
+              await profileManager.apply(profile.id);
+              this.display();
+            })
+        )
+        .addButton((button) =>
+          button
+            .setButtonText(t('settings.overwriteProfile'))
+            .onClick(async () => {
+              await profileManager.overwrite(profile.id);
+              this.display();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip(t('settings.deleteProfile'))
+            .onClick(async () => {
+              await profileManager.delete(profile.id);
+              this.display();
+            })
+        );
+    }
+  }
+}
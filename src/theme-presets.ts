@@ -0,0 +1,90 @@
+import type { CursorTheme } from './types';
+import { THEME_SCHEMA, THEME_VERSION } from './settings-schema';
+
+/**
+ * Built-in cursor themes shown in the settings tab
+ */
+export const BUILT_IN_THEMES: CursorTheme[] = [
+  {
+    schema: THEME_SCHEMA,
+    version: THEME_VERSION,
+    name: 'Neovide',
+    settings: {
+      enableAnimation: true,
+      animationInterpolation: 'spring',
+      springStiffness: 500,
+      springDampingRatio: 0.8,
+      enableInsertModeAnimation: true,
+      insertModeAnimationDuration: 40,
+      cursorColorSource: 'custom',
+      cursorColor: '#e0e0e0',
+      cursorOpacity: 0.9,
+      cursorShapes: {
+        normal: 'block',
+        insert: 'line',
+        visual: 'block',
+        replace: 'underline',
+        command: 'line',
+      },
+      enableCursorCharacter: true,
+      cursorTextColor: '#1e1e1e',
+      enableTrailEffect: true,
+      trailLength: 200,
+      trailOpacity: 0.6,
+      trailMinDistance: 40,
+      enableBreathingAnimation: false,
+    },
+  },
+  {
+    schema: THEME_SCHEMA,
+    version: THEME_VERSION,
+    name: 'VS Code smooth caret',
+    settings: {
+      enableAnimation: true,
+      animationInterpolation: 'ease-out',
+      animationDuration: 80,
+      enableInsertModeAnimation: true,
+      insertModeAnimationDuration: 80,
+      cursorColorSource: 'text-normal',
+      cursorOpacity: 1,
+      cursorShapes: {
+        normal: 'line',
+        insert: 'line',
+        visual: 'line',
+        replace: 'underline',
+        command: 'line',
+      },
+      enableCursorCharacter: false,
+      enablePerModeColors: false,
+      enableTrailEffect: false,
+      enableBreathingAnimation: true,
+      breathingAnimationDuration: 1,
+      breathingMinOpacity: 0.1,
+    },
+  },
+  {
+    schema: THEME_SCHEMA,
+    version: THEME_VERSION,
+    name: 'Terminal block',
+    settings: {
+      enableAnimation: false,
+      cursorColorSource: 'custom',
+      cursorColor: '#33ff66',
+      cursorOpacity: 1,
+      cursorShapes: {
+        normal: 'block',
+        insert: 'block',
+        visual: 'block',
+        replace: 'underline',
+        command: 'block',
+      },
+      enableCursorCharacter: true,
+      cursorTextColor: '#000000',
+      enablePerModeColors: false,
+      enableTrailEffect: false,
+      enableBreathingAnimation: true,
+      breathingAnimationDuration: 1.2,
+      breathingMinOpacity: 0.1,
+    },
+  },
+];
@@ -1,12 +1,68 @@
+/**
+ * Base vim modes - always have their own cursor configuration
+ */
+export type BaseVimMode = 'normal' | 'insert' | 'visual' | 'replace' | 'command';
+
+/**
+ * Sub-modes - fall back to their parent mode's configuration when unset
+ * (visual-line/visual-block -> visual, operator-pending -> normal)
+ */
+export type SubVimMode = 'visual-line' | 'visual-block' | 'operator-pending';
+
 /**
  * Vim mode types that affect cursor shape
  */
-export type VimMode = 'normal' | 'insert' | 'visual' | 'replace' | 'command';
+export type VimMode = BaseVimMode | SubVimMode;
 
 /**
  * Cursor shape types
+ * hollow: outlined block, also used for the unfocused cursor
+ */
+export type CursorShape = 'block' | 'line' | 'underline' | 'hollow';
+
+/**
+ * Where the global cursor color comes from
+ * - custom: the fixed cursorColor
+ * - accent / text-normal: Obsidian's --interactive-accent / --text-normal theme variables
+ * - css-variable: any CSS variable (cursorColorVariable)
+ * - light-dark: separate colors for light and dark themes
+ */
+export type CursorColorSource = 'custom' | 'accent' | 'text-normal' | 'css-variable' | 'light-dark';
+
+/**
+ * Cursor locator animation
+ * - ring: a large ring pulsing in on the cursor
+ * - halo: a halo expanding out of the cursor
  */
-export type CursorShape = 'block' | 'line' | 'underline';
+export type LocatorStyle = 'ring' | 'halo';
+
+/**
+ * Horizontal extent of the current-line highlight
+ * - full: the whole editor width
+ * - text: the text column (readable line width)
+ */
+export type LineHighlightWidth = 'full' | 'text';
+
+/**
+ * Shape of a visual mode selection
+ * - charwise: visual, linewise: visual-line, blockwise: visual-block
+ */
+export type SelectionKind = 'charwise' | 'linewise' | 'blockwise';
+
+/**
+ * Cursor behaviour during IME composition (CJK input)
+ * - track: follow the end of the uncommitted preedit text
+ * - freeze: stay where composition started, animate once on commit
+ */
+export type ImeCursorMode = 'track' | 'freeze';
+
+/**
+ * Interpolation used by the animation engine
+ * - lerp: fixed-factor lerp towards the target (default)
+ * - ease-out / ease-in-out / cubic-bezier: time-based easing curves
+ * - spring: damped spring physics
+ */
+export type AnimationInterpolation = 'lerp' | 'ease-out' | 'ease-in-out' | 'cubic-bezier' | 'spring';
 
 /**
  * Cursor position in pixel coordinates
@@ -18,6 +74,34 @@ export interface CursorPosition {
   height: number;
 }
 
+/**
+ * Cursor movement reported to subscribers (public API)
+ */
+export interface CursorMoveEvent {
+  head: number; // Document offset of the main selection head
+  rect: CursorPosition; // Displayed rectangle at the destination
+}
+
+/**
+ * Temporary cursor style set through the public API - unset fields keep the configured value
+ */
+export interface CursorStyleOverride {
+  color?: string;
+  opacity?: number;
+  shape?: CursorShape;
+}
+
+/**
+ * Character under the cursor with the font it is rendered in
+ */
+export interface CursorCharacter {
+  char: string;
+  fontFamily: string;
+  fontSize: string;
+  fontWeight: string;
+  fontStyle: string;
+}
+
 /**
  * Animation state for smooth cursor movement
  */
@@ -38,6 +122,55 @@ export interface CursorShapeConfig {
   visual: CursorShape;
   replace: CursorShape;
   command: CursorShape;
+  'visual-line'?: CursorShape;
+  'visual-block'?: CursorShape;
+  'operator-pending'?: CursorShape;
+}
+
+/**
+ * Cursor color and opacity for a single mode
+ */
+export interface CursorModeColor {
+  color: string;
+  opacity: number;
+}
+
+/**
+ * Configuration for cursor color per mode
+ */
+export interface CursorColorConfig {
+  normal: CursorModeColor;
+  insert: CursorModeColor;
+  visual: CursorModeColor;
+  replace: CursorModeColor;
+  command: CursorModeColor;
+  'visual-line'?: CursorModeColor;
+  'visual-block'?: CursorModeColor;
+  'operator-pending'?: CursorModeColor;
+}
+
+/**
+ * Settings stored in a profile - everything except the profile list itself and debug
+ */
+export type ProfileSettings = Omit<SmoothCursorSettings, 'profiles' | 'activeProfileId' | 'debug'>;
+
+/**
+ * Named snapshot of cursor, animation and breathing settings
+ */
+export interface SettingsProfile {
+  id: string; // Stable id, used in the profile's command id (hotkeys)
+  name: string;
+  settings: ProfileSettings;
+}
+
+/**
+ * Shareable cursor theme file - colors, shapes, animation and breathing
+ */
+export interface CursorTheme {
+  schema: 'smooth-cursor-theme';
+  version: number; // Theme file format version, bumped on incompatible changes
+  name: string;
+  settings: Partial<ProfileSettings>;
 }
 
 /**
@@ -46,15 +179,43 @@ export interface CursorShapeConfig {
 export interface SmoothCursorSettings {
   enableAnimation: boolean;
   animationDuration: number;
+  
+  // Interpolation mode settings
+  animationInterpolation: AnimationInterpolation;
+  animationCustomBezier: string; // "x1, y1, x2, y2" as in CSS cubic-bezier()
+  springStiffness: number;
+  springDampingRatio: number; // 1 = critically damped, < 1 = underdamped (overshoots)
+  
   cursorColor: string;
   cursorOpacity: number;
   cursorShapes: CursorShapeConfig;
+  
+  // Render the character under the block cursor (terminal-style)
+  enableCursorCharacter: boolean;
+  cursorTextColor: string;
+  
+  // Show a hollow block at the last position instead of hiding the cursor when the editor loses focus
+  enableUnfocusedHollowCursor: boolean;
+  
+  // Theme-aware color source (re-resolved on Obsidian's css-change event)
+  cursorColorSource: CursorColorSource;
+  cursorColorVariable: string; // CSS variable name used by the css-variable source
+  cursorColorLight: string;
+  cursorColorDark: string;
+  
+  // Per-mode colors (falls back to cursorColor/cursorOpacity when disabled)
+  enablePerModeColors: boolean;
+  cursorColors: CursorColorConfig;
+  
   debug: boolean;
   
   // Insert mode (typing) animation settings
   enableInsertModeAnimation: boolean;
   insertModeAnimationDuration: number;
   
+  // IME composition handling
+  imeCursorMode: ImeCursorMode;
+  
   // CSS transform mode for smoother animation (may appear slightly blurry)
   useTransformAnimation: boolean;
   
@@ -62,6 +223,51 @@ export interface SmoothCursorSettings {
   enableBreathingAnimation: boolean;
   breathingAnimationDuration: number; // in seconds
   breathingMinOpacity: number; // minimum opacity during breathing (0-1)
+  
+  // Smooth viewport scrolling for vim page motions (Ctrl-D/U/F/B, zz/zt/zb, gg, G)
+  enableSmoothScroll: boolean;
+  smoothScrollDuration: number; // in ms
+  
+  // Animated selection overlay in visual mode (replaces CodeMirror's selection background)
+  enableSelectionOverlay: boolean;
+  selectionOverlayColor: string;
+  selectionOverlayOpacity: number; // 0-1
+  
+  // Animated current-line highlight (replaces CodeMirror's active line background)
+  enableLineHighlight: boolean;
+  enableGutterHighlight: boolean; // matching band behind the active line number
+  lineHighlightColor: string;
+  lineHighlightOpacity: number; // 0-1
+  lineHighlightWidth: LineHighlightWidth;
+  
+  // Smooth cursor in plain inputs, textareas and contenteditable fields outside the editor
+  enableInputCursor: boolean;
+  
+  // Accessibility settings
+  respectReducedMotion: boolean; // follow the OS prefers-reduced-motion setting
+  enableHighContrastCursor: boolean; // thick high-contrast outline around the cursor
+  enableCrosshair: boolean; // highlight the cursor's line and column
+  crosshairOpacity: number; // 0-1
+  
+  // Cursor locator settings
+  locatorStyle: LocatorStyle;
+  enableAutoLocator: boolean; // ping automatically after long jumps
+  autoLocatorMinDistance: number; // minimum jump distance (px) that pings
+  autoLocatorOnAttach: boolean; // ping when switching to another editor
+  
+  // Trail (smear) effect settings
+  enableTrailEffect: boolean;
+  trailLength: number; // time (ms) for the trailing edge to catch up
+  trailOpacity: number; // trail opacity at the start of a jump (0-1)
+  trailMinDistance: number; // minimum jump distance (px) that leaves a trail
+  
+  // Status bar mode indicator
+  showStatusBarMode: boolean;
+  showStatusBarPendingInput: boolean; // pending count and register (e.g. 3"a)
+  
+  // Settings profiles
+  profiles: SettingsProfile[];
+  activeProfileId: string; // empty when the current settings are not a saved profile
 }
 
 /**
@@ -70,6 +276,13 @@ export interface SmoothCursorSettings {
 export const DEFAULT_SETTINGS: SmoothCursorSettings = {
   enableAnimation: true,
   animationDuration: 60,
+  
+  // Interpolation defaults (lerp keeps the original behaviour)
+  animationInterpolation: 'lerp',
+  animationCustomBezier: '0.25, 0.1, 0.25, 1',
+  springStiffness: 600,
+  springDampingRatio: 1,
+  
   cursorColor: '#528bff',
   cursorOpacity: 0.8,
   cursorShapes: {
@@ -79,12 +292,39 @@ export const DEFAULT_SETTINGS: SmoothCursorSettings = {
     replace: 'underline',
     command: 'block',
   },
+  
+  // Cursor character defaults (off - solid block over the text)
+  enableCursorCharacter: false,
+  cursorTextColor: '#ffffff',
+  
+  // Unfocused cursor default (off - cursor is hidden when the editor loses focus)
+  enableUnfocusedHollowCursor: false,
+  
+  // Color source defaults (custom - fixed cursorColor)
+  cursorColorSource: 'custom',
+  cursorColorVariable: '--text-accent',
+  cursorColorLight: '#3b6fd8',
+  cursorColorDark: '#528bff',
+  
+  // Per-mode color defaults (off - single cursorColor for every mode)
+  enablePerModeColors: false,
+  cursorColors: {
+    normal: { color: '#528bff', opacity: 0.8 },
+    insert: { color: '#98c379', opacity: 0.8 },
+    visual: { color: '#c678dd', opacity: 0.8 },
+    replace: { color: '#e06c75', opacity: 0.8 },
+    command: { color: '#d19a66', opacity: 0.8 },
+  },
+  
   debug: false,
   
   // Insert mode animation defaults
   enableInsertModeAnimation: true,
   insertModeAnimationDuration: 30,
   
+  // IME default (follow the preedit text)
+  imeCursorMode: 'track',
+  
   // Transform animation default (off for sharper cursor)
   useTransformAnimation: false,
   
@@ -92,5 +332,50 @@ export const DEFAULT_SETTINGS: SmoothCursorSettings = {
   enableBreathingAnimation: true,
   breathingAnimationDuration: 1.6, // 1.6 seconds per cycle
   breathingMinOpacity: 0.3, // fade to 30% opacity
+  
+  // Smooth scroll defaults (off - page motions jump instantly)
+  enableSmoothScroll: false,
+  smoothScrollDuration: 150,
+  
+  // Selection overlay defaults (off - CodeMirror draws the selection)
+  enableSelectionOverlay: false,
+  selectionOverlayColor: '#528bff',
+  selectionOverlayOpacity: 0.3,
+  
+  // Line highlight defaults (off - CodeMirror draws the active line)
+  enableLineHighlight: false,
+  enableGutterHighlight: true,
+  lineHighlightColor: '#528bff',
+  lineHighlightOpacity: 0.1,
+  lineHighlightWidth: 'full',
+  
+  // Input field cursor default (off - native caret outside the editor)
+  enableInputCursor: false,
+  
+  // Accessibility defaults (reduced motion honoured, extra highlights off)
+  respectReducedMotion: true,
+  enableHighContrastCursor: false,
+  enableCrosshair: false,
+  crosshairOpacity: 0.15,
+  
+  // Cursor locator defaults (manual command only)
+  locatorStyle: 'ring',
+  enableAutoLocator: false,
+  autoLocatorMinDistance: 400,
+  autoLocatorOnAttach: false,
+  
+  // Trail effect defaults (off by default)
+  enableTrailEffect: false,
+  trailLength: 200,
+  trailOpacity: 0.4,
+  trailMinDistance: 60,
+  
+  // Status bar defaults (mode shown, pending input hidden)
+  showStatusBarMode: true,
+  showStatusBarPendingInput: false,
+  
+  // Profile defaults (no profiles)
+  profiles: [],
+  activeProfileId: '',
 };
 
@@ -5,7 +5,7 @@
  */
 
 import { EditorView } from '@codemirror/view';
-import { MarkdownView } from 'obsidian';
+import { EventRef, MarkdownView } from 'obsidian';
 
 /**
  * CodeMirror 5 editor instance interface
@@ -14,6 +14,21 @@ import { MarkdownView } from 'obsidian';
 export interface CodeMirror5Editor {
   on(event: 'vim-mode-change', handler: (mode: any) => void): void;
   off(event: 'vim-mode-change', handler: (mode: any) => void): void;
+  /**
+   * Internal codemirror-vim state
+   * inputState.operator is set while an operator (d, c, y, ...) waits for its motion;
+   * prefixRepeat/motionRepeat hold the typed count digits and registerName the `"x` register
+   */
+  state?: {
+    vim?: {
+      inputState?: {
+        operator?: string | null;
+        prefixRepeat?: string[];
+        motionRepeat?: string[];
+        registerName?: string | null;
+      };
+    };
+  };
 }
 
 /**
@@ -44,21 +59,18 @@ declare module 'obsidian' {
       };
     };
   }
-}
 
-/**
- * Extended EditorView with internal dispatch interception support
- * Used for transaction listening when ViewPlugin cannot be registered
- */
-declare module '@codemirror/view' {
-  interface EditorView {
+  interface Vault {
     /**
-     * Internal property used to store original dispatch method
-     * when intercepting dispatch for transaction listening
-     * WARNING: This is a workaround and may conflict with other plugins
-     * Note: Made optional to allow delete operator
+     * Internal API: Read an app setting from .obsidian/app.json (e.g. 'vimMode')
+     * WARNING: This is an internal API and may break in future Obsidian updates
      */
-    __originalDispatch?: (tr: any) => void;
+    getConfig(key: string): unknown;
+
+    /**
+     * Internal API: Triggered after an app setting changed
+     * WARNING: This is an internal API and may break in future Obsidian updates
+     */
+    on(name: 'config-changed', callback: () => unknown, ctx?: unknown): EventRef;
   }
 }
-
@@ -12,7 +12,8 @@ export function isEditorFocused(editorView: EditorView | null): boolean {
   if (!editorView) return false;
   
   const editorDom = editorView.dom;
-  const activeElement = document.activeElement;
+  // Use the editor's own document - popout windows track focus separately
+  const activeElement = editorDom.ownerDocument.activeElement;
   
   if (!activeElement) return false;
   
@@ -57,13 +57,16 @@ export function getCodeMirror5EditorFromMarkdownView(view: MarkdownView): CodeMi
 }
 
 /**
- * Type guard to check if EditorView has original dispatch stored
+ * Safely get the codemirror-vim CodeMirror adapter from any EditorView
+ * codemirror-vim stores it on the view as `cm` (see its getCM helper), which also
+ * works for editors outside MarkdownView (Canvas cards, embeds, popovers)
  * @param editorView - The EditorView instance
- * @returns true if __originalDispatch is available
+ * @returns CodeMirror 5 compatible editor if vim mode is enabled, undefined otherwise
  */
-export function hasOriginalDispatch(editorView: EditorView): editorView is EditorView & {
-  __originalDispatch: (tr: any) => void;
-} {
-  return typeof (editorView as any).__originalDispatch === 'function';
+export function getCodeMirror5EditorFromEditorView(editorView: EditorView): CodeMirror5Editor | undefined {
+  const cm = (editorView as any).cm;
+  if (cm && typeof cm.on === 'function' && typeof cm.off === 'function') {
+    return cm as CodeMirror5Editor;
+  }
+  return undefined;
 }
-
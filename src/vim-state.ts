@@ -1,16 +1,26 @@
 import { EditorView } from '@codemirror/view';
 import type SmoothCursorPlugin from './main';
 import type { VimMode } from './types';
+import type { CodeMirror5Editor } from './types/obsidian-extensions';
+import { EventManager } from './core/event-manager';
 
 /**
  * VimStateProvider - Detects vim mode changes via vim-mode-change event
  * Uses CodeMirror's native vim-mode-change event for reliable mode detection
+ * Operator-pending state, pending count and register are not reported by that event,
+ * so they are read from codemirror-vim's input state after each keydown
  */
 export class VimStateProvider {
   private plugin: SmoothCursorPlugin;
   private currentMode: VimMode = 'normal';
+  private eventMode: VimMode = 'normal'; // Last mode reported by vim-mode-change
+  private isOperatorPending = false;
+  private pendingInput = ''; // Typed register and count, e.g. "a3
   private editorView: EditorView | null = null;
+  private codeMirrorEditor: CodeMirror5Editor | null = null;
+  private eventManager = new EventManager();
   private modeChangeCallbacks: Set<(mode: VimMode) => void> = new Set();
+  private pendingInputCallbacks: Set<(pendingInput: string) => void> = new Set();
 
   constructor(plugin: SmoothCursorPlugin) {
     this.plugin = plugin;
@@ -18,16 +28,39 @@ export class VimStateProvider {
 
   /**
    * Attach to a specific EditorView
+   * @param editorView - The CodeMirror 6 EditorView
+   * @param codeMirrorEditor - codemirror-vim adapter, used for operator-pending detection
    */
-  attach(editorView: EditorView) {
+  attach(editorView: EditorView, codeMirrorEditor?: CodeMirror5Editor) {
+    this.detach();
     this.editorView = editorView;
+    this.codeMirrorEditor = codeMirrorEditor ?? null;
+
+    if (this.codeMirrorEditor) {
+      // Vim handles the key in CodeMirror's own keydown handler - check its
+      // input state once that has run
+      const keydownHandler = () => {
+        window.setTimeout(() => {
+          this.checkOperatorPending();
+          this.checkPendingInput();
+        }, 0);
+      };
+      this.eventManager.addEventListener(editorView.dom, 'keydown', keydownHandler, true);
+    }
   }
 
   /**
    * Detach from current editor
    */
   detach() {
+    this.eventManager.removeAll();
     this.editorView = null;
+    this.codeMirrorEditor = null;
+    if (this.isOperatorPending) {
+      this.isOperatorPending = false;
+      this.updateMode();
+    }
+    this.setPendingInput('');
   }
 
   /**
@@ -45,11 +78,65 @@ export class VimStateProvider {
     return () => this.modeChangeCallbacks.delete(callback);
   }
 
+  /**
+   * Get the register and count typed before a command (empty when none)
+   */
+  getPendingInput(): string {
+    return this.pendingInput;
+  }
+
+  /**
+   * Register callback for pending count/register changes
+   */
+  onPendingInputChange(callback: (pendingInput: string) => void): () => void {
+    this.pendingInputCallbacks.add(callback);
+    return () => this.pendingInputCallbacks.delete(callback);
+  }
+
   /**
    * Clean up resources
    */
   destroy() {
+    this.detach();
     this.modeChangeCallbacks.clear();
+    this.pendingInputCallbacks.clear();
+  }
+
+  /**
+   * Read operator-pending state from codemirror-vim
+   */
+  private checkOperatorPending() {
+    const operator = this.codeMirrorEditor?.state?.vim?.inputState?.operator;
+    const isPending = !!operator;
+    if (isPending !== this.isOperatorPending) {
+      this.isOperatorPending = isPending;
+      this.updateMode();
+    }
+  }
+
+  /**
+   * Read pending register and count from codemirror-vim
+   */
+  private checkPendingInput() {
+    const inputState = this.codeMirrorEditor?.state?.vim?.inputState;
+    const register = inputState?.registerName ? `"${inputState.registerName}` : '';
+    const count = [...(inputState?.prefixRepeat ?? []), ...(inputState?.motionRepeat ?? [])].join('');
+    this.setPendingInput(register + count);
+  }
+
+  private setPendingInput(pendingInput: string) {
+    if (pendingInput !== this.pendingInput) {
+      this.pendingInput = pendingInput;
+      this.pendingInputCallbacks.forEach((cb) => cb(pendingInput));
+    }
+  }
+
+  /**
+   * Combine the event mode with operator-pending state
+   */
+  private updateMode() {
+    const mode = this.isOperatorPending && this.eventMode === 'normal' ? 'operator-pending' : this.eventMode;
+    this.setMode(mode);
   }
 
   private setMode(mode: VimMode) {
@@ -64,6 +151,7 @@ export class VimStateProvider {
    * Handle vim-mode-change event from CodeMirror editor
    * This is the most reliable way to detect mode changes, as it works with custom key mappings
    * @param modeObj - The vim mode object from the event with 'mode' property (e.g., { mode: 'insert' })
+   *   and optional 'subMode' for visual mode ('linewise' or 'blockwise')
    */
   onVimModeChanged = (modeObj: any) => {
     this.plugin.debug('vim-mode-change event received:', modeObj);
@@ -75,10 +163,12 @@ export class VimStateProvider {
     }
     
     let modeString: string;
+    let subMode = '';
     
     // Handle object format with 'mode' property (as used by im-select plugin)
     if (typeof modeObj === 'object' && modeObj !== null && 'mode' in modeObj) {
       modeString = modeObj.mode;
+      subMode = typeof modeObj.subMode === 'string' ? modeObj.subMode.toLowerCase() : '';
     } else if (typeof modeObj === 'string') {
       modeString = modeObj;
     } else {
@@ -95,7 +185,14 @@ export class VimStateProvider {
     if (normalizedMode === 'insert' || normalizedMode.includes('insert')) {
       vimMode = 'insert';
     } else if (normalizedMode === 'visual' || normalizedMode.includes('visual')) {
-      vimMode = 'visual';
+      // codemirror-vim reports V and Ctrl-V through subMode
+      if (subMode === 'linewise' || normalizedMode.includes('line')) {
+        vimMode = 'visual-line';
+      } else if (subMode === 'blockwise' || normalizedMode.includes('block')) {
+        vimMode = 'visual-block';
+      } else {
+        vimMode = 'visual';
+      }
     } else if (normalizedMode === 'replace' || normalizedMode.includes('replace')) {
       vimMode = 'replace';
     } else if (normalizedMode === 'command' || normalizedMode.includes('command') || normalizedMode.includes('ex')) {
@@ -106,6 +203,9 @@ export class VimStateProvider {
     }
     
     this.plugin.debug('Converted to VimMode:', vimMode);
-    this.setMode(vimMode);
+    this.eventMode = vimMode;
+    // Any mode change ends a pending operator
+    this.isOperatorPending = false;
+    this.updateMode();
   }
 }
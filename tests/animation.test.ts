@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnimationEngine, type AnimationClock } from '../src/animation';
+import { REFERENCE_FRAME_MS } from '../src/interpolators';
+import { DEFAULT_SETTINGS, type AnimationInterpolation, type CursorPosition, type SmoothCursorSettings } from '../src/types';
+import type SmoothCursorPlugin from '../src/main';
+import { FakeClock } from './fake-clock';
+
+const START: CursorPosition = { x: 0, y: 0, width: 8, height: 20 };
+const TARGET: CursorPosition = { x: 600, y: 300, width: 8, height: 20 };
+
+function createEngine(settings: Partial<SmoothCursorSettings>, clock: AnimationClock): AnimationEngine {
+  const plugin = {
+    settings: { ...DEFAULT_SETTINGS, respectReducedMotion: false, ...settings },
+  } as unknown as SmoothCursorPlugin;
+  return new AnimationEngine(plugin, clock);
+}
+
+/**
+ * Animate from START to TARGET at a fixed frame rate
+ * @returns Time (ms) from animateTo until the engine settled on the target
+ */
+function measureArrival(interpolation: AnimationInterpolation, frameRate: number): number {
+  const clock = new FakeClock();
+  const engine = createEngine({ animationInterpolation: interpolation, animationDuration: 150 }, clock);
+  const frameMs = 1000 / frameRate;
+
+  engine.setImmediate(START);
+  engine.animateTo(TARGET);
+  while (engine.isRunning()) {
+    clock.tick(frameMs);
+    if (clock.now() > 10000) throw new Error(`${interpolation} did not settle at ${frameRate}Hz`);
+  }
+
+  expect(engine.getCurrentPosition()).toEqual(TARGET);
+  return clock.now();
+}
+
+/**
+ * Allowed arrival difference between two frame rates
+ * Arrival is only observed on a frame (one frame of the slower rate), and the first frame
+ * of a loop counts as one reference frame of motion however long it really took.
+ */
+function arrivalTolerance(slowRate: number, fastRate: number): number {
+  const slowFrame = 1000 / slowRate;
+  const fastFrame = 1000 / fastRate;
+  return slowFrame + Math.abs(slowFrame - REFERENCE_FRAME_MS) + Math.abs(fastFrame - REFERENCE_FRAME_MS);
+}
+
+describe('AnimationEngine timing', () => {
+  const interpolations: AnimationInterpolation[] = ['lerp', 'ease-out', 'spring'];
+
+  for (const interpolation of interpolations) {
+    it(`${interpolation} arrives at the same time on 60Hz, 144Hz and throttled 20Hz frames`, () => {
+      const at60 = measureArrival(interpolation, 60);
+      const at144 = measureArrival(interpolation, 144);
+      const at20 = measureArrival(interpolation, 20);
+
+      expect(Math.abs(at144 - at60)).toBeLessThanOrEqual(arrivalTolerance(60, 144));
+      expect(Math.abs(at20 - at60)).toBeLessThanOrEqual(arrivalTolerance(20, 60));
+    });
+  }
+
+  it('ease-out arrives after the animation duration', () => {
+    expect(measureArrival('ease-out', 144)).toBeCloseTo(150, -1);
+  });
+
+  it('reports intermediate positions on the way to the target', () => {
+    const clock = new FakeClock();
+    const engine = createEngine({ animationInterpolation: 'lerp' }, clock);
+    const frames: number[] = [];
+    engine.setOnFrame((pos) => frames.push(pos.x));
+
+    engine.setImmediate(START);
+    frames.length = 0;
+    engine.animateTo(TARGET);
+    clock.tick(1000 / 60);
+    clock.tick(1000 / 60);
+
+    expect(frames).toHaveLength(2);
+    expect(frames[0]).toBeGreaterThan(START.x);
+    expect(frames[1]).toBeGreaterThan(frames[0]);
+    expect(frames[1]).toBeLessThan(TARGET.x);
+  });
+});
+
+describe('AnimationEngine jump detection', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createJumpEngine(settings: Partial<SmoothCursorSettings> = {}) {
+    const clock = new FakeClock();
+    const engine = createEngine({ enableAutoLocator: true, autoLocatorMinDistance: 400, ...settings }, clock);
+    const jumps: CursorPosition[] = [];
+    engine.setOnJump((target) => jumps.push(target));
+    engine.setImmediate(START);
+    return { clock, engine, jumps };
+  }
+
+  it('reports a jump once per new far target', () => {
+    const { clock, engine, jumps } = createJumpEngine({ animationInterpolation: 'spring' });
+
+    engine.animateTo(TARGET);
+    // The same target again while the cursor is still far behind it
+    clock.tick(1000 / 60);
+    engine.animateTo(TARGET);
+    clock.tick(1000 / 60);
+    // Small moves near the target
+    engine.animateTo({ ...TARGET, y: TARGET.y + 20 });
+
+    expect(jumps).toEqual([TARGET]);
+  });
+
+  it('measures from the previous target, not the animated position', () => {
+    const { clock, engine, jumps } = createJumpEngine({ animationInterpolation: 'lerp' });
+    const near: CursorPosition = { ...START, y: 300 };
+
+    engine.animateTo(near);
+    clock.tick(1000 / 60);
+    // 350px from the previous target, but farther from the cursor still on its way there
+    engine.animateTo({ ...near, x: 350 });
+    expect(jumps).toEqual([]);
+
+    engine.animateTo({ ...near, x: 800 });
+    expect(jumps).toEqual([{ ...near, x: 800 }]);
+  });
+
+  it('ignores typing and reduced motion', () => {
+    const { engine, jumps } = createJumpEngine({ respectReducedMotion: true });
+    engine.animateTo(TARGET, true);
+
+    vi.stubGlobal('matchMedia', () => ({ matches: true }));
+    engine.animateTo(START);
+
+    expect(jumps).toEqual([]);
+  });
+});
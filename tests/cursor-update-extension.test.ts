@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { EditorState, StateEffect } from '@codemirror/state';
+import { EditorView, type ViewUpdate } from '@codemirror/view';
+import { createCursorUpdateExtension } from '../src/cursor-update-extension';
+
+function createEditor() {
+  const updates: ViewUpdate[] = [];
+  const view = new EditorView({
+    state: EditorState.create({
+      doc: 'hello world',
+      extensions: createCursorUpdateExtension((update) => updates.push(update)),
+    }),
+    parent: document.body,
+  });
+  return { view, updates };
+}
+
+describe('cursor update extension', () => {
+  it('forwards selection and document changes', () => {
+    const { view, updates } = createEditor();
+
+    view.dispatch({ selection: { anchor: 5 } });
+    view.dispatch({ changes: { from: 0, insert: '# ' } });
+
+    expect(updates.filter((update) => update.selectionSet)).toHaveLength(1);
+    expect(updates.filter((update) => update.docChanged)).toHaveLength(1);
+    view.destroy();
+  });
+
+  it('ignores updates that cannot move the cursor', () => {
+    const { view, updates } = createEditor();
+    updates.length = 0;
+
+    view.dispatch({ effects: StateEffect.appendConfig.of([]) });
+
+    expect(updates).toEqual([]);
+    view.destroy();
+  });
+});
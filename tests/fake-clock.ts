@@ -0,0 +1,34 @@
+import type { AnimationClock } from '../src/animation';
+
+/**
+ * Clock whose frames only run when the test advances time
+ */
+export class FakeClock implements AnimationClock {
+  private time = 0;
+  private nextId = 1;
+  private frames: Map<number, (time: number) => void> = new Map();
+
+  now(): number {
+    return this.time;
+  }
+
+  requestFrame(callback: (time: number) => void): number {
+    const id = this.nextId++;
+    this.frames.set(id, callback);
+    return id;
+  }
+
+  cancelFrame(id: number): void {
+    this.frames.delete(id);
+  }
+
+  /**
+   * Advance to the next frame and run the callbacks queued for it (in request order)
+   */
+  tick(frameMs: number): void {
+    this.time += frameMs;
+    const frames = [...this.frames.values()];
+    this.frames.clear();
+    frames.forEach((callback) => callback(this.time));
+  }
+}
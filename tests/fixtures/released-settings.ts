@@ -0,0 +1,164 @@
+/**
+ * data.json contents as saved by the released versions listed in versions.json
+ * Releases before settings versioning stored the flat settings object without `settingsVersion`.
+ * Each fixture holds only what that settings tab could write: block, line and underline shapes,
+ * hex colors from the color picker and numbers within the slider limits. The field set is the
+ * one of the 1.2.8 sources; releases before 1.2.8 still defaulted the visual mode to block.
+ * Damaged or hand-edited data is covered by separate tests.
+ */
+export const RELEASED_SETTINGS: Record<string, Record<string, unknown>> = {
+  '1.0.0': {
+    enableAnimation: true,
+    animationDuration: 100,
+    cursorColor: '#ff0000',
+    cursorOpacity: 1,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.3,
+  },
+  '1.1.0': {
+    enableAnimation: true,
+    animationDuration: 120,
+    cursorColor: '#00ff00',
+    cursorOpacity: 0.6,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: false,
+    insertModeAnimationDuration: 80,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.3,
+  },
+  '1.2.0': {
+    enableAnimation: true,
+    animationDuration: 100,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'underline', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: true,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: true,
+    enableBreathingAnimation: false,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.5,
+  },
+  '1.2.1': {
+    enableAnimation: false,
+    animationDuration: 100,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 150,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.3,
+  },
+  '1.2.2': {
+    enableAnimation: true,
+    animationDuration: 80,
+    cursorColor: '#e06c75',
+    cursorOpacity: 0.6,
+    cursorShapes: { normal: 'block', insert: 'underline', visual: 'block', replace: 'underline', command: 'line' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 5,
+    breathingMinOpacity: 0.3,
+  },
+  '1.2.3': {
+    enableAnimation: true,
+    animationDuration: 300,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 20,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.3,
+  },
+  '1.2.4': {
+    enableAnimation: true,
+    animationDuration: 20,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.1,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 0.5,
+    breathingMinOpacity: 0.1,
+  },
+  '1.2.5': {
+    enableAnimation: true,
+    animationDuration: 100,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'underline', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.9,
+  },
+  '1.2.6': {
+    enableAnimation: true,
+    animationDuration: 100,
+    cursorColor: '#98c379',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: false,
+    enableBreathingAnimation: false,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.3,
+  },
+  '1.2.7': {
+    enableAnimation: true,
+    animationDuration: 100,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'block', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 50,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 2,
+    breathingMinOpacity: 0.3,
+  },
+  '1.2.8': {
+    enableAnimation: true,
+    animationDuration: 60,
+    cursorColor: '#528bff',
+    cursorOpacity: 0.8,
+    cursorShapes: { normal: 'block', insert: 'line', visual: 'line', replace: 'underline', command: 'block' },
+    debug: false,
+    enableInsertModeAnimation: true,
+    insertModeAnimationDuration: 30,
+    useTransformAnimation: false,
+    enableBreathingAnimation: true,
+    breathingAnimationDuration: 1.6,
+    breathingMinOpacity: 0.3,
+  },
+};
@@ -0,0 +1,14 @@
+/**
+ * Runtime stand-in for the `obsidian` module, which only ships type declarations
+ * Add the members a module under test needs at runtime.
+ */
+export function getLanguage(): string {
+  return 'en';
+}
+
+/**
+ * UI classes extended or instantiated by modules under test - never rendered in tests
+ */
+export class Modal {}
+export class Notice {}
+export class Setting {}
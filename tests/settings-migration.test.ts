@@ -0,0 +1,141 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, type SmoothCursorSettings } from '../src/types';
+import { SETTINGS_SCHEMA, validateSettings } from '../src/settings-schema';
+import { SETTINGS_VERSION, migrateSettings } from '../src/settings-migration';
+import { RELEASED_SETTINGS } from './fixtures/released-settings';
+
+const RELEASED_VERSIONS = Object.keys(JSON.parse(readFileSync(new URL('../versions.json', import.meta.url), 'utf8'))).sort();
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Simulate saveSettings() followed by the next load
+ */
+function reload(settings: SmoothCursorSettings) {
+  return migrateSettings(clone({ ...settings, settingsVersion: SETTINGS_VERSION }));
+}
+
+describe('migrateSettings', () => {
+  it('has a fixture for every released version', () => {
+    expect(Object.keys(RELEASED_SETTINGS).sort()).toEqual(RELEASED_VERSIONS);
+  });
+
+  for (const [version, data] of Object.entries(RELEASED_SETTINGS)) {
+    describe(`upgrading from ${version}`, () => {
+      it('keeps every stored value and fills new settings with defaults', () => {
+        const { settings, report } = migrateSettings(clone(data));
+        expect(settings).toEqual({ ...DEFAULT_SETTINGS, ...data });
+        expect(report.errors).toEqual([]);
+        expect(report.warnings).toEqual([]);
+      });
+
+      it('reports version 0 and asks to be saved with the current version', () => {
+        const { settings, report } = migrateSettings(clone(data));
+        expect(report.fromVersion).toBe(0);
+        expect(report.changed).toBe(true);
+
+        const reloaded = reload(settings);
+        expect(reloaded.report).toEqual({ fromVersion: SETTINGS_VERSION, errors: [], warnings: [], changed: false });
+        expect(reloaded.settings).toEqual(settings);
+      });
+
+      it('only keeps known settings', () => {
+        const { settings } = migrateSettings(clone(data));
+        expect(Object.keys(settings).sort()).toEqual([...Object.keys(SETTINGS_SCHEMA), 'profiles'].sort());
+
+        const { profiles, ...rest } = settings;
+        expect(profiles).toEqual([]);
+        const revalidated = validateSettings(rest);
+        expect(revalidated.errors).toEqual([]);
+        expect(revalidated.warnings).toEqual([]);
+      });
+    });
+  }
+
+  it('clamps out-of-range numbers with a warning', () => {
+    const { settings, report } = migrateSettings({ animationDuration: 500, cursorOpacity: 0.05 });
+    expect(settings.animationDuration).toBe(300);
+    expect(settings.cursorOpacity).toBe(0.1);
+    expect(report.errors).toEqual([]);
+    expect(report.warnings).toEqual([
+      'animationDuration: 500 is outside 20-300, clamped to 300',
+      'cursorOpacity: 0.05 is outside 0.1-1, clamped to 0.1',
+    ]);
+  });
+
+  it('resets numbers stored as strings with an error', () => {
+    const { settings, report } = migrateSettings({ animationDuration: '100' });
+    expect(settings.animationDuration).toBe(DEFAULT_SETTINGS.animationDuration);
+    expect(report.errors).toEqual(['animationDuration: expected a number']);
+  });
+
+  it('resets colors that are not hex colors with an error', () => {
+    const { settings, report } = migrateSettings({ cursorColor: 'red' });
+    expect(settings.cursorColor).toBe(DEFAULT_SETTINGS.cursorColor);
+    expect(report.errors).toEqual(['cursorColor: expected a hex color (e.g. #528bff)']);
+  });
+
+  it('resets non-boolean toggles with an error', () => {
+    const { settings, report } = migrateSettings({ enableBreathingAnimation: 'yes' });
+    expect(settings.enableBreathingAnimation).toBe(DEFAULT_SETTINGS.enableBreathingAnimation);
+    expect(report.errors).toEqual(['enableBreathingAnimation: expected true or false']);
+  });
+
+  it('ignores unknown shapes and keeps the default for that mode', () => {
+    const { settings, report } = migrateSettings({ cursorShapes: { normal: 'underline', insert: 'beam' } });
+    expect(settings.cursorShapes).toEqual({ ...DEFAULT_SETTINGS.cursorShapes, normal: 'underline' });
+    expect(report.warnings).toEqual(['cursorShapes.insert: expected one of block / line / underline / hollow, ignored']);
+  });
+
+  it('removes stale keys with a warning', () => {
+    const { settings, report } = migrateSettings({ cursorWidth: 2 });
+    expect(settings).not.toHaveProperty('cursorWidth');
+    expect(report.warnings).toEqual(['cursorWidth: unknown field, ignored']);
+    expect(report.changed).toBe(true);
+  });
+
+  it('deep merges partial cursorShapes and cursorColors over the defaults', () => {
+    const { settings } = migrateSettings({
+      settingsVersion: SETTINGS_VERSION,
+      cursorShapes: { insert: 'block', 'visual-line': 'hollow' },
+      cursorColors: { visual: { color: '#ff00ff', opacity: 0.5 }, 'operator-pending': { color: '#00ffff', opacity: 1 } },
+    });
+
+    expect(settings.cursorShapes).toEqual({ ...DEFAULT_SETTINGS.cursorShapes, insert: 'block', 'visual-line': 'hollow' });
+    expect(settings.cursorColors).toEqual({
+      ...DEFAULT_SETTINGS.cursorColors,
+      visual: { color: '#ff00ff', opacity: 0.5 },
+      'operator-pending': { color: '#00ffff', opacity: 1 },
+    });
+  });
+
+  it('starts from the defaults without stored data', () => {
+    const { settings, report } = migrateSettings(null);
+    expect(settings).toEqual(DEFAULT_SETTINGS);
+    expect(report).toEqual({ fromVersion: SETTINGS_VERSION, errors: [], warnings: [], changed: false });
+  });
+
+  it('never shares objects with DEFAULT_SETTINGS', () => {
+    const { settings } = migrateSettings(clone(RELEASED_SETTINGS['1.2.8']));
+    settings.cursorShapes.normal = 'hollow';
+    settings.cursorColors.normal.color = '#000000';
+
+    expect(DEFAULT_SETTINGS.cursorShapes.normal).toBe('block');
+    expect(DEFAULT_SETTINGS.cursorColors.normal.color).not.toBe('#000000');
+  });
+
+  it('never shares mode colors between profiles and DEFAULT_SETTINGS', () => {
+    const { settings } = migrateSettings({
+      settingsVersion: SETTINGS_VERSION,
+      profiles: [{ id: 'a', name: 'Profile', settings: { cursorColors: { visual: { color: '#ff00ff', opacity: 1 } } } }],
+    });
+    const profileColors = settings.profiles[0].settings.cursorColors;
+    profileColors.normal.color = '#000000';
+
+    expect(profileColors.normal).not.toBe(DEFAULT_SETTINGS.cursorColors.normal);
+    expect(DEFAULT_SETTINGS.cursorColors.normal.color).not.toBe('#000000');
+  });
+});
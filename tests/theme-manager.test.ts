@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ThemeManager } from '../src/core/theme-manager';
+import { THEME_SCHEMA, THEME_VERSION } from '../src/settings-schema';
+import type SmoothCursorPlugin from '../src/main';
+
+// parseTheme does not touch the plugin
+const themeManager = new ThemeManager({} as SmoothCursorPlugin);
+
+function themeJson(fields: Record<string, unknown>): string {
+  return JSON.stringify({ schema: THEME_SCHEMA, version: THEME_VERSION, name: 'Test', ...fields });
+}
+
+describe('ThemeManager.parseTheme', () => {
+  it('accepts a valid theme', () => {
+    const result = themeManager.parseTheme(themeJson({ settings: { cursorColor: '#ff00ff', animationDuration: 120 } }));
+    expect(result).toEqual({
+      theme: { schema: THEME_SCHEMA, version: THEME_VERSION, name: 'Test', settings: { cursorColor: '#ff00ff', animationDuration: 120 } },
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it('rejects malformed JSON', () => {
+    const result = themeManager.parseTheme('{ "schema": ');
+    expect(result.theme).toBeNull();
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatch(/^Could not parse JSON: /);
+  });
+
+  it('rejects JSON that is not a theme', () => {
+    const result = themeManager.parseTheme(JSON.stringify({ settings: { cursorColor: '#ff00ff' } }));
+    expect(result.theme).toBeNull();
+    expect(result.errors).toEqual([`Not a Smooth Cursor theme (missing "schema": "${THEME_SCHEMA}")`]);
+  });
+
+  it('rejects themes from a newer version', () => {
+    const result = themeManager.parseTheme(themeJson({ version: THEME_VERSION + 1, settings: {} }));
+    expect(result.theme).toBeNull();
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it('drops unknown keys with a warning', () => {
+    const result = themeManager.parseTheme(themeJson({ settings: { cursorColor: '#ff00ff', cursorWidth: 2 } }));
+    expect(result.theme?.settings).toEqual({ cursorColor: '#ff00ff' });
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual(['cursorWidth: unknown field, ignored']);
+  });
+
+  it('drops settings that are not part of a theme', () => {
+    const result = themeManager.parseTheme(themeJson({ settings: { debug: true } }));
+    expect(result.theme?.settings).toEqual({});
+    expect(result.warnings).toEqual(['debug: unknown field, ignored']);
+  });
+
+  it('clamps out-of-range values with a warning', () => {
+    const result = themeManager.parseTheme(themeJson({ settings: { animationDuration: 500, cursorOpacity: 0.05 } }));
+    expect(result.theme?.settings).toEqual({ animationDuration: 300, cursorOpacity: 0.1 });
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([
+      'animationDuration: 500 is outside 20-300, clamped to 300',
+      'cursorOpacity: 0.05 is outside 0.1-1, clamped to 0.1',
+    ]);
+  });
+
+  it('drops values of the wrong type with an error', () => {
+    const result = themeManager.parseTheme(themeJson({ settings: { cursorColor: 'red', animationDuration: 120 } }));
+    expect(result.theme?.settings).toEqual({ animationDuration: 120 });
+    expect(result.errors).toEqual(['cursorColor: expected a hex color (e.g. #528bff)']);
+  });
+
+  it('falls back to an untitled name', () => {
+    const result = themeManager.parseTheme(themeJson({ name: '  ', settings: {} }));
+    expect(result.theme?.name).toBe('Untitled theme');
+  });
+});
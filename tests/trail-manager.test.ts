@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnimationEngine } from '../src/animation';
+import { TrailManager } from '../src/core/trail-manager';
+import { DEFAULT_SETTINGS, type CursorPosition, type SmoothCursorSettings } from '../src/types';
+import type SmoothCursorPlugin from '../src/main';
+import { FakeClock } from './fake-clock';
+
+const START: CursorPosition = { x: 0, y: 0, width: 8, height: 20 };
+const TARGET: CursorPosition = { x: 600, y: 300, width: 8, height: 20 };
+
+describe('TrailManager', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    document.body.innerHTML = '';
+  });
+
+  /**
+   * Engine and trail wired like the cursor renderer, both driven by one fake clock
+   */
+  function setup() {
+    const clock = new FakeClock();
+    vi.spyOn(window, 'requestAnimationFrame').mockImplementation((callback) => clock.requestFrame(callback));
+    vi.spyOn(window, 'cancelAnimationFrame').mockImplementation((id) => clock.cancelFrame(id));
+
+    const settings: SmoothCursorSettings = {
+      ...DEFAULT_SETTINGS,
+      respectReducedMotion: false,
+      enableTrailEffect: true,
+      animationInterpolation: 'ease-out',
+      animationDuration: 150,
+    };
+    const engine = new AnimationEngine({ settings } as unknown as SmoothCursorPlugin, clock);
+    const trail = new TrailManager(settings);
+    trail.create(document);
+    engine.setOnFrame((pos) => trail.update(pos));
+    engine.setImmediate(START);
+
+    const trailEl = document.querySelector<HTMLElement>('.smooth-cursor-trail');
+    if (!trailEl) throw new Error('Trail element not created');
+    return { clock, engine, trail, trailEl };
+  }
+
+  it('shows the trail while the cursor jumps from rest', () => {
+    const { clock, engine, trail, trailEl } = setup();
+    expect(trail.shouldTrigger(START, TARGET)).toBe(true);
+
+    // Same order as the renderer - the cursor frame moves the head before the trail follows
+    engine.animateTo(TARGET);
+    trail.start(START, '#528bff');
+
+    const displays: string[] = [];
+    while (engine.isRunning()) {
+      clock.tick(1000 / 60);
+      displays.push(trailEl.style.display);
+    }
+
+    expect(displays.length).toBeGreaterThan(1);
+    expect(displays.every((display) => display === 'block')).toBe(true);
+  });
+
+  it('waits for the head when its first frame runs before the cursor moved', () => {
+    const { clock, engine, trail, trailEl } = setup();
+    trail.start(START, '#528bff');
+    engine.animateTo(TARGET);
+
+    const displays: string[] = [];
+    while (engine.isRunning()) {
+      clock.tick(1000 / 60);
+      displays.push(trailEl.style.display);
+    }
+
+    expect(displays.slice(1).every((display) => display === 'block')).toBe(true);
+  });
+
+  it('hides the trail once the trailing edge catches up', () => {
+    const { clock, engine, trail, trailEl } = setup();
+    trail.start(START, '#528bff');
+    engine.animateTo(TARGET);
+
+    for (let i = 0; i < 120; i++) {
+      clock.tick(1000 / 60);
+    }
+    expect(trailEl.style.display).toBe('none');
+  });
+
+  it('gives up when the cursor never moves', () => {
+    const { clock, trail, trailEl } = setup();
+    trail.start(START, '#528bff');
+
+    for (let i = 0; i < 60; i++) {
+      clock.tick(1000 / 60);
+    }
+    expect(trailEl.style.display).toBe('none');
+  });
+});